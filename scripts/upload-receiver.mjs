@@ -0,0 +1,123 @@
+/**
+ * Reference upload receiver
+ * Minimal collection endpoint for testing session uploads locally, no dependencies.
+ *
+ * Usage:
+ *   npm run receiver                      # listens on http://localhost:8787/upload
+ *   PORT=9000 UPLOAD_DIR=data npm run receiver
+ *
+ * Point the simulator at it with VITE_UPLOAD_ENDPOINT=http://localhost:8787/upload
+ * (or "uploadEndpoint" in a bundled study protocol). Each session is stored as
+ * <UPLOAD_DIR>/<sessionId>.zip; a repeated upload of the same session replaces it.
+ * Set FAIL_RATE (0-1) to reject that share of uploads and exercise the retry logic.
+ */
+
+import { createServer } from 'node:http';
+import { mkdir, writeFile, appendFile } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+
+const PORT = Number(process.env.PORT ?? 8787);
+const UPLOAD_DIR = resolve(process.env.UPLOAD_DIR ?? 'uploads');
+const FAIL_RATE = Number(process.env.FAIL_RATE ?? 0);
+const MAX_BYTES = 100 * 1024 * 1024;
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, X-Session-Id, X-Participant-Id, X-Filename'
+};
+
+/**
+ * Keep only characters that are safe in a filename
+ */
+function sanitize(value) {
+  return String(value ?? '').replace(/[^A-Za-z0-9_.-]/g, '_').slice(0, 200);
+}
+
+/**
+ * Header value as sent by the simulator, which percent-encodes it
+ * Values that do not decode are kept as they are.
+ */
+function decodeHeader(value) {
+  try {
+    return decodeURIComponent(String(value ?? ''));
+  } catch {
+    return String(value ?? '');
+  }
+}
+
+function send(response, status, body) {
+  response.writeHead(status, { ...CORS_HEADERS, 'Content-Type': 'application/json' });
+  response.end(JSON.stringify(body));
+}
+
+/**
+ * Read the request body, rejecting bodies over MAX_BYTES
+ */
+function readBody(request) {
+  return new Promise((resolveBody, reject) => {
+    const chunks = [];
+    let size = 0;
+
+    request.on('data', chunk => {
+      size += chunk.length;
+      if (size > MAX_BYTES) {
+        reject(new Error('Payload too large'));
+        request.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    request.on('end', () => resolveBody(Buffer.concat(chunks)));
+    request.on('error', reject);
+  });
+}
+
+const server = createServer(async (request, response) => {
+  if (request.method === 'OPTIONS') {
+    response.writeHead(204, CORS_HEADERS);
+    response.end();
+    return;
+  }
+
+  if (request.method !== 'POST') {
+    send(response, 405, { error: 'Only POST is supported' });
+    return;
+  }
+
+  const sessionId = sanitize(decodeHeader(request.headers['x-session-id']));
+  if (!sessionId) {
+    send(response, 400, { error: 'Missing X-Session-Id header' });
+    return;
+  }
+
+  try {
+    const body = await readBody(request);
+
+    if (Math.random() < FAIL_RATE) {
+      console.log(`Rejected ${sessionId} (FAIL_RATE=${FAIL_RATE})`);
+      send(response, 503, { error: 'Simulated failure' });
+      return;
+    }
+
+    await mkdir(UPLOAD_DIR, { recursive: true });
+    await writeFile(join(UPLOAD_DIR, `${sessionId}.zip`), body);
+    await appendFile(join(UPLOAD_DIR, 'uploads.log'), JSON.stringify({
+      receivedAt: new Date().toISOString(),
+      sessionId,
+      participantId: decodeHeader(request.headers['x-participant-id']),
+      filename: decodeHeader(request.headers['x-filename']),
+      bytes: body.length
+    }) + '\n');
+
+    console.log(`Stored ${sessionId}.zip (${body.length} bytes)`);
+    send(response, 200, { ok: true, sessionId });
+  } catch (error) {
+    console.error(`Error storing ${sessionId}:`, error);
+    send(response, 500, { error: error.message });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Upload receiver listening on http://localhost:${PORT}/upload, saving to ${UPLOAD_DIR}`);
+});
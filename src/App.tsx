@@ -9,54 +9,61 @@ import { ThemeProvider } from './context/ThemeContext';
 import SplashScreen from './components/SplashScreen/SplashScreen';
 import Tutorial from './components/Tutorial/Tutorial';
 import EndScreen from './components/EndScreen/EndScreen';
+import ReviewDashboard from './components/ReviewDashboard/ReviewDashboard';
 import RobotArm from './components/RobotArm/RobotArm';
 import Controls from './components/Controls/Controls';
 import PromptDisplay from './components/PromptDisplay/PromptDisplay';
 import ProgressIndicator from './components/ProgressIndicator/ProgressIndicator';
 import HelpButton from './components/HelpButton/HelpButton';
 import ThemeToggle from './components/ThemeToggle/ThemeToggle';
-import { getActivePosePreset } from './constants/config';
-import { getPromptText } from './constants/prompts';
+import CanvasToolbar from './components/CanvasToolbar/CanvasToolbar';
+import { getPosePreset, createRobotConfig } from './constants/config';
+import { getPromptText } from './utils/protocol';
+import { getScenePose } from './utils/scene';
 import './App.css';
 
 function AppContent() {
   const {
     appState,
+    protocol,
     userSession,
-    setTargetPosition,
+    setTargetPose,
     setCurrentTrajectory,
     currentTrajectory,
     setRobotConfig,
-    robotConfig
+    recordingState,
+    mouseSensitivity,
+    setMouseSensitivity
   } = useAppContext();
 
   // Initialize new motion when entering recording state or moving to next prompt
   useEffect(() => {
-    if (appState === 'recording' && userSession && !currentTrajectory) {
+    if (appState === 'recording' && protocol && userSession && !currentTrajectory) {
       const currentPromptType = userSession.promptOrder[userSession.currentPromptIndex];
-      const promptText = getPromptText(currentPromptType, userSession.promptSet);
-      const activePose = getActivePosePreset();
+      const promptText = getPromptText(protocol, userSession.promptSet, currentPromptType);
+      const trialPose = getPosePreset(userSession.posePresetOrder[userSession.currentPromptIndex]);
 
-      // Reset robot to initial position from active preset
-      setRobotConfig({
-        ...robotConfig,
-        shoulderAngle: activePose.initialShoulderAngle,
-        elbowAngle: activePose.initialElbowAngle
-      });
+      // Reset robot to initial position from this trial's preset
+      setRobotConfig(createRobotConfig(trialPose));
 
-      setTargetPosition(activePose.targetPosition);
+      // Moving targets start from their pose at the beginning of the scene
+      setTargetPose(getScenePose(trialPose.scene, trialPose.targetPosition, 0));
       setCurrentTrajectory({
         frames: [],
         startPosition: { x: 50, y: 50 }, // Default start position
-        targetPosition: activePose.targetPosition,
+        targetPosition: trialPose.targetPosition,
         promptType: currentPromptType,
         promptText,
         completed: false,
         attemptCount: 1,
-        totalTimeMs: 0
+        totalTimeMs: 0,
+        posePreset: trialPose.name,
+        waypoints: trialPose.waypoints,
+        waypointsInOrder: trialPose.waypointsInOrder,
+        scene: trialPose.scene
       });
     }
-  }, [appState, userSession, currentTrajectory]);
+  }, [appState, protocol, userSession, currentTrajectory]);
 
   // Render appropriate screen based on app state
   if (appState === 'splash') {
@@ -71,6 +78,10 @@ function AppContent() {
     return <EndScreen />;
   }
 
+  if (appState === 'review') {
+    return <ReviewDashboard />;
+  }
+
   // Recording state - main application interface
   return (
     <>
@@ -87,6 +98,11 @@ function AppContent() {
         </div>
         <RobotArm />
         <Controls />
+        <CanvasToolbar
+          sensitivity={mouseSensitivity}
+          onSensitivityChange={setMouseSensitivity}
+          disabled={recordingState === 'recording'}
+        />
       </div>
       <footer className="app-footer">
         Robot Arm Simulator v8.0 | Created by Damien Pearl |
@@ -10,9 +10,10 @@ import './CanvasToolbar.css';
 interface CanvasToolbarProps {
   sensitivity: number;
   onSensitivityChange: (value: number) => void;
+  disabled?: boolean;  // Lock the controls (while recording, so a motion has one sensitivity)
 }
 
-export default function CanvasToolbar({ sensitivity, onSensitivityChange }: CanvasToolbarProps) {
+export default function CanvasToolbar({ sensitivity, onSensitivityChange, disabled = false }: CanvasToolbarProps) {
   return (
     <div className="canvas-toolbar">
       <div className="canvas-toolbar-header">
@@ -34,6 +35,8 @@ export default function CanvasToolbar({ sensitivity, onSensitivityChange }: Canv
           max={MOUSE_SENSITIVITY_CONFIG.max}
           step="0.1"
           value={sensitivity}
+          disabled={disabled}
+          title={disabled ? 'Sensitivity can be changed when not recording' : undefined}
           onChange={(e) => onSensitivityChange(Number(e.target.value))}
           className="toolbar-slider"
         />
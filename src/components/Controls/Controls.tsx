@@ -1,21 +1,40 @@
 /**
  * Controls component
- * Provides reset, complete, undo/redo buttons
+ * Provides reset, complete, undo/redo, smoothing and retiming buttons
  * Recording starts automatically on first movement
  */
 
 import { useState, useEffect, useRef } from 'react';
-import { Play, Pause, RotateCcw, Undo2, Redo2, Check, Waves } from 'lucide-react';
+import { Play, Pause, RotateCcw, Undo2, Redo2, Check, Waves, Timer } from 'lucide-react';
 import { useAppContext } from '../../context/AppContext';
-import { gaussianSmoothTrajectory, strengthToSigma } from '../../utils/smoothing';
+import { filterTrajectory } from '../../utils/smoothing';
+import { retimeTrajectory } from '../../utils/retiming';
 import Timeline from '../Timeline/Timeline';
-import type { MotionTrajectory } from '../../types';
+import PlaybackControls from '../PlaybackControls/PlaybackControls';
+import { getPlaybackStartPosition } from '../../utils/playback';
+import { RETIMING_CONFIG, SMOOTHING_CONFIG } from '../../constants/config';
+import type {
+  MotionTrajectory,
+  RetimingOptions,
+  RetimingMode,
+  SmoothingFilter,
+  SmoothingDomain
+} from '../../types';
 import './Controls.css';
 
 export default function Controls() {
   const [smoothingStrength, setSmoothingStrength] = useState(0);
+  const [smoothingFilter, setSmoothingFilter] = useState<SmoothingFilter>(SMOOTHING_CONFIG.defaultFilter);
+  const [smoothingDomain, setSmoothingDomain] = useState<SmoothingDomain>(SMOOTHING_CONFIG.defaultDomain);
   const [showSmoothingSlider, setShowSmoothingSlider] = useState(false);
   const [originalTrajectory, setOriginalTrajectory] = useState<MotionTrajectory | null>(null);
+  const [retimingOptions, setRetimingOptions] = useState<RetimingOptions>({
+    mode: RETIMING_CONFIG.defaultMode,
+    maxVelocity: RETIMING_CONFIG.maxVelocity,
+    maxAcceleration: RETIMING_CONFIG.maxAcceleration
+  });
+  const [showRetimingPanel, setShowRetimingPanel] = useState(false);
+  const [unretimedTrajectory, setUnretimedTrajectory] = useState<MotionTrajectory | null>(null);
   const [hasPlayedAnimation, setHasPlayedAnimation] = useState(false);
   const [showPlaybackWarning, setShowPlaybackWarning] = useState(false);
   const [showResetConfirm, setShowResetConfirm] = useState(false);
@@ -30,14 +49,16 @@ export default function Controls() {
     redo,
     canUndo,
     canRedo,
+    robotConfig,
     recordingState,
     startPlayback,
     stopPlayback,
     stopRecording,
-    playbackFrame
+    playbackPosition,
+    playbackOptions
   } = useAppContext();
 
-  // Clear smoothing state if trajectory changes externally (e.g., from redraw, undo, reset)
+  // Clear smoothing and retiming state if trajectory changes externally (e.g., from redraw, undo, reset)
   useEffect(() => {
     const currentId = currentTrajectory?.promptType + '_' + currentTrajectory?.frames.length;
 
@@ -48,8 +69,14 @@ export default function Controls() {
       setSmoothingStrength(0);
     }
 
+    // Same for retiming
+    if (trajectoryIdRef.current !== null && trajectoryIdRef.current !== currentId && showRetimingPanel) {
+      setShowRetimingPanel(false);
+      setUnretimedTrajectory(null);
+    }
+
     trajectoryIdRef.current = currentId;
-  }, [currentTrajectory, showSmoothingSlider]);
+  }, [currentTrajectory, showSmoothingSlider, showRetimingPanel]);
 
   const handleReset = () => {
     // Stop recording before showing modal to prevent interference
@@ -93,13 +120,9 @@ export default function Controls() {
     if (recordingState === 'playing') {
       stopPlayback();
     } else {
-      // If we're at or near the end, restart from the beginning
+      // If we're at the end of the range (the start, in reverse), restart from the other end
       const totalFrames = currentTrajectory?.frames.length || 0;
-      if (totalFrames > 0 && playbackFrame >= totalFrames - 1) {
-        startPlayback(0); // Start from frame 0
-      } else {
-        startPlayback(); // Start from current frame
-      }
+      startPlayback(getPlaybackStartPosition(totalFrames, playbackPosition, playbackOptions));
       setHasPlayedAnimation(true);
     }
   };
@@ -115,15 +138,18 @@ export default function Controls() {
     setShowSmoothingSlider(true);
   };
 
-  const handleSmoothingChange = (value: number) => {
+  const handleSmoothingChange = (
+    value: number,
+    filter: SmoothingFilter = smoothingFilter,
+    domain: SmoothingDomain = smoothingDomain
+  ) => {
     setSmoothingStrength(value);
+    setSmoothingFilter(filter);
+    setSmoothingDomain(domain);
 
-    if (originalTrajectory && value > 0) {
-      const sigma = strengthToSigma(value);
-      const smoothed = gaussianSmoothTrajectory(originalTrajectory, sigma);
-      setCurrentTrajectory(smoothed);
-    } else if (originalTrajectory && value === 0) {
-      setCurrentTrajectory(originalTrajectory);
+    if (originalTrajectory) {
+      // Strength 0 gives back the original trajectory
+      setCurrentTrajectory(filterTrajectory(originalTrajectory, robotConfig, { filter, domain, strength: value }));
     }
   };
 
@@ -142,6 +168,40 @@ export default function Controls() {
     setOriginalTrajectory(null);
   };
 
+  const handleOpenRetiming = () => {
+    if (!currentTrajectory || currentTrajectory.frames.length < 3) {
+      alert('Not enough frames to retime. Please record a longer motion.');
+      return;
+    }
+    // Save original trajectory for real-time preview, and preview the current settings
+    setUnretimedTrajectory(currentTrajectory);
+    setCurrentTrajectory(retimeTrajectory(currentTrajectory, retimingOptions));
+    setShowRetimingPanel(true);
+  };
+
+  const handleRetimingChange = (changes: Partial<RetimingOptions>) => {
+    const options = { ...retimingOptions, ...changes };
+    setRetimingOptions(options);
+
+    if (unretimedTrajectory) {
+      setCurrentTrajectory(retimeTrajectory(unretimedTrajectory, options));
+    }
+  };
+
+  const handleCancelRetiming = () => {
+    if (unretimedTrajectory) {
+      setCurrentTrajectory(unretimedTrajectory);
+    }
+    setShowRetimingPanel(false);
+    setUnretimedTrajectory(null);
+  };
+
+  const handleDoneRetiming = () => {
+    // Keep the retimed version
+    setShowRetimingPanel(false);
+    setUnretimedTrajectory(null);
+  };
+
   const canComplete = currentTrajectory?.completed || false;
   const hasFrames = (currentTrajectory?.frames.length || 0) > 0;
   const canPlay = hasFrames && recordingState !== 'recording';
@@ -149,7 +209,7 @@ export default function Controls() {
   return (
     <div className="controls-container">
       <div className="controls-main">
-        <Timeline />
+        <Timeline timingPreview={unretimedTrajectory} />
 
         <div className="controls-group">
         <button
@@ -175,13 +235,23 @@ export default function Controls() {
         <button
           className="control-button smooth"
           onClick={handleOpenSmoothing}
-          disabled={!hasFrames || recordingState === 'playing'}
+          disabled={!hasFrames || recordingState === 'playing' || showRetimingPanel}
           title="Smooth out the trajectory"
         >
           <Waves size={16} />
           <span className="label">Smooth</span>
         </button>
 
+        <button
+          className="control-button retime"
+          onClick={handleOpenRetiming}
+          disabled={!hasFrames || recordingState === 'playing' || showSmoothingSlider}
+          title="Retime the trajectory to joint velocity and acceleration limits"
+        >
+          <Timer size={16} />
+          <span className="label">Retime</span>
+        </button>
+
         <button
           className="control-button undo"
           onClick={undo}
@@ -214,12 +284,37 @@ export default function Controls() {
         </button>
       </div>
 
+      {hasFrames && <PlaybackControls />}
+
       {showSmoothingSlider && (
         <div className="smoothing-panel">
           <div className="smoothing-header">
             <label htmlFor="smoothing-slider">Smoothing Strength (drag to preview)</label>
             <span className="smoothing-value">{smoothingStrength}%</span>
           </div>
+          <div className="smoothing-options">
+            <select
+              className="panel-select"
+              value={smoothingFilter}
+              onChange={(e) => handleSmoothingChange(smoothingStrength, e.target.value as SmoothingFilter)}
+              title="Smoothing filter"
+            >
+              <option value="gaussian">Gaussian</option>
+              <option value="savitzky-golay">Savitzky–Golay</option>
+              <option value="butterworth">Butterworth (zero-phase)</option>
+              <option value="one-euro">One-Euro</option>
+              <option value="spline">Smoothing spline</option>
+            </select>
+            <select
+              className="panel-select"
+              value={smoothingDomain}
+              onChange={(e) => handleSmoothingChange(smoothingStrength, smoothingFilter, e.target.value as SmoothingDomain)}
+              title="Smooth the joint angles or the end effector path"
+            >
+              <option value="cartesian">End effector path</option>
+              <option value="joint">Joint angles</option>
+            </select>
+          </div>
           <input
             id="smoothing-slider"
             type="range"
@@ -240,6 +335,60 @@ export default function Controls() {
         </div>
       )}
 
+      {showRetimingPanel && (
+        <div className="smoothing-panel">
+          <div className="smoothing-header">
+            <label htmlFor="retiming-mode">Retiming (preview on the timeline)</label>
+            <select
+              id="retiming-mode"
+              className="panel-select"
+              value={retimingOptions.mode}
+              onChange={(e) => handleRetimingChange({ mode: e.target.value as RetimingMode })}
+            >
+              <option value="time-optimal">Time-optimal</option>
+              <option value="uniform">Uniform scaling</option>
+              <option value="preserve-relative">Preserve relative timing</option>
+            </select>
+          </div>
+          <div className="smoothing-header">
+            <label htmlFor="retiming-velocity">Max joint velocity</label>
+            <span className="smoothing-value">{retimingOptions.maxVelocity.toFixed(1)} rad/s</span>
+          </div>
+          <input
+            id="retiming-velocity"
+            type="range"
+            min={RETIMING_CONFIG.velocityRange[0]}
+            max={RETIMING_CONFIG.velocityRange[1]}
+            step="0.5"
+            value={retimingOptions.maxVelocity}
+            onChange={(e) => handleRetimingChange({ maxVelocity: Number(e.target.value) })}
+            className="smoothing-slider"
+          />
+          <div className="smoothing-header">
+            <label htmlFor="retiming-acceleration">Max joint acceleration</label>
+            <span className="smoothing-value">{retimingOptions.maxAcceleration} rad/s²</span>
+          </div>
+          <input
+            id="retiming-acceleration"
+            type="range"
+            min={RETIMING_CONFIG.accelerationRange[0]}
+            max={RETIMING_CONFIG.accelerationRange[1]}
+            step="1"
+            value={retimingOptions.maxAcceleration}
+            onChange={(e) => handleRetimingChange({ maxAcceleration: Number(e.target.value) })}
+            className="smoothing-slider"
+          />
+          <div className="smoothing-buttons">
+            <button className="smoothing-apply" onClick={handleDoneRetiming}>
+              Done
+            </button>
+            <button className="smoothing-cancel" onClick={handleCancelRetiming}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
       {showPlaybackWarning && (
         <div className="modal-overlay" onClick={() => setShowPlaybackWarning(false)}>
           <div className="modal-content" onClick={(e) => e.stopPropagation()}>
@@ -1,6 +1,6 @@
 /**
  * EndScreen component
- * Shown after completing all 8 motions
+ * Shown after completing all motions of the session
  */
 
 import { useState } from 'react';
@@ -8,11 +8,46 @@ import { useAppContext } from '../../context/AppContext';
 import {
   exportAllDataAsZip
 } from '../../utils/dataExport';
+import { EXPORT_CONFIG } from '../../constants/config';
+import { computeEffortFeatures } from '../../utils/effortAnalysis';
+import { getPromptSetLabel } from '../../utils/protocol';
+import { useSessionUpload } from '../../hooks/useSessionUpload';
+import type { UploadState } from '../../types';
 import './EndScreen.css';
 
+/**
+ * Format an Effort value with three significant digits (a dash when undefined)
+ */
+function formatFeature(value: number | null): string {
+  if (value === null || !Number.isFinite(value)) return '—';
+  return Number(value.toPrecision(3)).toLocaleString();
+}
+
+/**
+ * Describe the upload progress for the participant
+ */
+function describeUpload(uploadState: UploadState | null): string {
+  switch (uploadState?.status) {
+    case 'uploading':
+      return 'Sending your data to the researchers...';
+    case 'retrying':
+      return `Sending failed (${uploadState.error}). Trying again shortly...`;
+    case 'offline':
+      return 'You are offline. Your data is saved and will be sent when you reconnect.';
+    case 'uploaded':
+      return 'Your data has been sent to the researchers.';
+    case 'failed':
+      return `Your data could not be sent (${uploadState.error}). Please retry or download it below.`;
+    default:
+      return 'Preparing your data...';
+  }
+}
+
 export default function EndScreen() {
-  const { userSession } = useAppContext();
+  const { protocol, userSession } = useAppContext();
   const [isDownloading, setIsDownloading] = useState(false);
+  const [resampleRateHz, setResampleRateHz] = useState<number | null>(EXPORT_CONFIG.resampleRateHz);
+  const { enabled: uploadEnabled, uploadState, retry: retryUpload } = useSessionUpload({ protocol, userSession });
 
   if (!userSession) return null;
 
@@ -26,7 +61,9 @@ export default function EndScreen() {
         userSession.completedMotions,
         participantId,
         userSession.sessionId,
-        userSession.promptSet
+        userSession.promptSet,
+        userSession.assignment,
+        { ...EXPORT_CONFIG, resampleRateHz }
       );
     } catch (error) {
       console.error('Error downloading data:', error);
@@ -36,6 +73,11 @@ export default function EndScreen() {
     }
   };
 
+  const effortFeatures = userSession.completedMotions.map(motion => ({
+    promptType: motion.promptType,
+    ...computeEffortFeatures(motion)
+  }));
+
   const totalTime = Date.now() - userSession.startTime;
   const totalMinutes = Math.floor(totalTime / 60000);
   const totalSeconds = Math.floor((totalTime % 60000) / 1000);
@@ -46,7 +88,7 @@ export default function EndScreen() {
         <div className="end-icon">✓</div>
         <h1 className="end-title">Thank You!</h1>
         <p className="end-subtitle">
-          You have completed all 8 motion recordings
+          You have completed all {userSession.promptOrder.length} motion recordings
         </p>
 
         <div className="end-stats">
@@ -62,16 +104,56 @@ export default function EndScreen() {
           </div>
           <div className="stat-item">
             <div className="stat-value">
-              {userSession.promptSet === 'laban' ? 'Laban' : 'Metaphor'}
+              {protocol ? getPromptSetLabel(protocol, userSession.promptSet) : userSession.promptSet}
             </div>
             <div className="stat-label">Prompt Set</div>
           </div>
         </div>
 
+        {effortFeatures.length > 0 && (
+          <div className="end-features">
+            <h2 className="end-features-title">Laban Effort Features</h2>
+            <table className="features-table">
+              <thead>
+                <tr>
+                  <th>Prompt</th>
+                  <th title="Peak kinetic energy (Strong / Light)">Weight</th>
+                  <th title="Mean acceleration (Sudden / Sustained)">Time</th>
+                  <th title="Path length / straight distance (Direct / Indirect)">Space</th>
+                  <th title="Mean jerk (Free / Bound)">Flow</th>
+                </tr>
+              </thead>
+              <tbody>
+                {effortFeatures.map((features, index) => (
+                  <tr key={index}>
+                    <td>{features.promptType}</td>
+                    <td>{formatFeature(features.weight)}</td>
+                    <td>{formatFeature(features.time)}</td>
+                    <td>{formatFeature(features.space)}</td>
+                    <td>{formatFeature(features.flow)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {uploadEnabled && (
+          <div className={`upload-status upload-status-${uploadState?.status ?? 'queued'}`}>
+            <span>{describeUpload(uploadState)}</span>
+            {uploadState?.status === 'failed' && (
+              <button className="upload-retry-button" onClick={retryUpload}>
+                Retry
+              </button>
+            )}
+          </div>
+        )}
+
         <div className="end-description">
           <p>
-            Your data has been recorded successfully. Please download your data files
-            using the button below.
+            {uploadEnabled
+              ? 'Your data has been recorded successfully. You can also keep a copy of your data files using the button below.'
+              : 'Your data has been recorded successfully. Please download your data files using the button below.'}
           </p>
           {userSession.userId && (
             <p>
@@ -84,6 +166,20 @@ export default function EndScreen() {
           </p>
         </div>
 
+        <label className="download-option">
+          Trajectory samples
+          <select
+            value={resampleRateHz ?? ''}
+            onChange={(e) => setResampleRateHz(e.target.value === '' ? null : Number(e.target.value))}
+            disabled={isDownloading}
+          >
+            <option value="">Recorded frames</option>
+            {EXPORT_CONFIG.resampleRateOptions.map(rate => (
+              <option key={rate} value={rate}>{rate} Hz</option>
+            ))}
+          </select>
+        </label>
+
         <button
           className="download-button"
           onClick={handleDownloadAll}
@@ -0,0 +1,135 @@
+/**
+ * PlaybackControls component
+ * Speed, loop, reverse and A–B range controls for motion playback, and execution
+ * through the simulated joint controllers with its tracking error
+ */
+
+import { useMemo } from 'react';
+import { Cpu, Repeat, Rewind, X } from 'lucide-react';
+import { useAppContext } from '../../context/AppContext';
+import { simulateTrajectory } from '../../utils/controller';
+import { ANIMATION_CONFIG } from '../../constants/config';
+import './PlaybackControls.css';
+
+export default function PlaybackControls() {
+  const {
+    currentTrajectory,
+    robotConfig,
+    playbackFrame,
+    playbackOptions,
+    setPlaybackOptions
+  } = useAppContext();
+
+  const totalFrames = currentTrajectory?.frames.length || 0;
+  const lastFrame = Math.max(0, totalFrames - 1);
+  const { speed, loop, reverse, loopRange, simulateController } = playbackOptions;
+  const { jointLimits } = robotConfig;
+
+  // Tracking error of the whole motion, only worked out while execution is simulated
+  const trackingReport = useMemo(
+    () => (simulateController && currentTrajectory ? simulateTrajectory(currentTrajectory, jointLimits) : null),
+    [simulateController, currentTrajectory, jointLimits]
+  );
+
+  // Marking A or B keeps the other end of the range, swapping them if they cross
+  const setRangeStart = () => {
+    const end = loopRange?.end ?? lastFrame;
+    setPlaybackOptions(prev => ({
+      ...prev,
+      loopRange: { start: Math.min(playbackFrame, end), end: Math.max(playbackFrame, end) }
+    }));
+  };
+
+  const setRangeEnd = () => {
+    const start = loopRange?.start ?? 0;
+    setPlaybackOptions(prev => ({
+      ...prev,
+      loopRange: { start: Math.min(playbackFrame, start), end: Math.max(playbackFrame, start) }
+    }));
+  };
+
+  return (
+    <div className="playback-controls">
+      <label className="playback-speed" title="Playback speed">
+        <span>Speed</span>
+        <select
+          value={speed}
+          onChange={(e) => setPlaybackOptions(prev => ({ ...prev, speed: Number(e.target.value) }))}
+        >
+          {ANIMATION_CONFIG.playbackSpeedPresets.map(preset => (
+            <option key={preset} value={preset}>{preset}x</option>
+          ))}
+        </select>
+      </label>
+
+      <button
+        className={`playback-toggle ${loop ? 'active' : ''}`}
+        onClick={() => setPlaybackOptions(prev => ({ ...prev, loop: !prev.loop }))}
+        title="Loop playback"
+      >
+        <Repeat size={14} />
+        <span className="label">Loop</span>
+      </button>
+
+      <button
+        className={`playback-toggle ${reverse ? 'active' : ''}`}
+        onClick={() => setPlaybackOptions(prev => ({ ...prev, reverse: !prev.reverse }))}
+        title="Play backwards"
+      >
+        <Rewind size={14} />
+        <span className="label">Reverse</span>
+      </button>
+
+      <button
+        className={`playback-toggle ${simulateController ? 'active' : ''}`}
+        onClick={() => setPlaybackOptions(prev => ({ ...prev, simulateController: !prev.simulateController }))}
+        title="Execute the motion through simulated PID joint controllers with motor limits"
+      >
+        <Cpu size={14} />
+        <span className="label">Simulate</span>
+      </button>
+
+      {trackingReport && (
+        <span
+          className="playback-tracking"
+          title={`Torque-limited on ${Math.round(trackingReport.saturatedFraction * 100)}% of the motion`}
+        >
+          Tracking RMS {trackingReport.rmsEndEffectorError.toFixed(1)} px · max {trackingReport.maxEndEffectorError.toFixed(1)} px
+        </span>
+      )}
+
+      <div className="playback-range">
+        <button
+          className={`playback-toggle ${loopRange ? 'active' : ''}`}
+          onClick={setRangeStart}
+          disabled={totalFrames < 2}
+          title="Set loop start (A) at the current frame"
+        >
+          A
+        </button>
+        <button
+          className={`playback-toggle ${loopRange ? 'active' : ''}`}
+          onClick={setRangeEnd}
+          disabled={totalFrames < 2}
+          title="Set loop end (B) at the current frame"
+        >
+          B
+        </button>
+        {loopRange && (
+          <>
+            <span className="playback-range-label">
+              {Math.min(loopRange.start, lastFrame) + 1}–{Math.min(loopRange.end, lastFrame) + 1}
+            </span>
+            <button
+              className="playback-toggle"
+              onClick={() => setPlaybackOptions(prev => ({ ...prev, loopRange: null }))}
+              title="Clear A–B loop"
+            >
+              <X size={14} />
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
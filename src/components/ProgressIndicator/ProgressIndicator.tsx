@@ -1,11 +1,11 @@
 /**
  * ProgressIndicator component
- * Shows progress through the 8 motion prompts as a pie chart
+ * Shows progress through the session's motion prompts as a pie chart
  */
 
 import { useRef, useEffect } from 'react';
 import { useAppContext } from '../../context/AppContext';
-import { TOTAL_MOTIONS, COLORS } from '../../constants/config';
+import { COLORS } from '../../constants/config';
 import './ProgressIndicator.css';
 
 export default function ProgressIndicator() {
@@ -13,8 +13,8 @@ export default function ProgressIndicator() {
   const { userSession } = useAppContext();
 
   const completedCount = userSession?.completedMotions.length || 0;
-  const totalCount = TOTAL_MOTIONS;
-  const progress = completedCount / totalCount;
+  const totalCount = userSession?.promptOrder.length || 0;
+  const progress = totalCount > 0 ? completedCount / totalCount : 0;
 
   useEffect(() => {
     const canvas = canvasRef.current;
@@ -4,16 +4,16 @@
  */
 
 import { useAppContext } from '../../context/AppContext';
-import { getPromptText } from '../../constants/prompts';
+import { getPromptText } from '../../utils/protocol';
 import './PromptDisplay.css';
 
 export default function PromptDisplay() {
-  const { userSession } = useAppContext();
+  const { protocol, userSession } = useAppContext();
 
-  if (!userSession) return null;
+  if (!protocol || !userSession) return null;
 
   const currentPromptType = userSession.promptOrder[userSession.currentPromptIndex];
-  const promptText = getPromptText(currentPromptType, userSession.promptSet);
+  const promptText = getPromptText(protocol, userSession.promptSet, currentPromptType);
 
   return (
     <div className="prompt-display">
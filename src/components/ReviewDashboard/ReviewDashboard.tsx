@@ -0,0 +1,315 @@
+/**
+ * ReviewDashboard component
+ * Researcher mode (?mode=review): load exported ZIPs, browse participants, sessions
+ * and prompts, replay any recorded motion on the robot arm canvas and overlay several
+ * for comparison (ghost arms follow the main replay in time)
+ */
+
+import { useState } from 'react';
+import { Play, Pause, Upload } from 'lucide-react';
+import { useAppContext } from '../../context/AppContext';
+import { importSessionZip } from '../../utils/dataExport';
+import { robotConfigFromFrame } from '../../utils/kinematics';
+import { createOverlayTraces } from '../../utils/overlay';
+import { getPlaybackStartPosition } from '../../utils/playback';
+import { POSE_PRESETS } from '../../constants/config';
+import RobotArm from '../RobotArm/RobotArm';
+import Timeline from '../Timeline/Timeline';
+import PlaybackControls from '../PlaybackControls/PlaybackControls';
+import ThemeToggle from '../ThemeToggle/ThemeToggle';
+import type { ReviewSession, MotionTrajectory } from '../../types';
+import '../Controls/Controls.css';
+import './ReviewDashboard.css';
+
+interface SelectedTrial {
+  sessionKey: string;
+  trialIndex: number;
+}
+
+/**
+ * Key identifying an imported session (the same session may be loaded from two ZIPs)
+ */
+function getSessionKey(session: ReviewSession): string {
+  return `${session.sourceFile}/${session.sessionId}`;
+}
+
+export default function ReviewDashboard() {
+  const [sessions, setSessions] = useState<ReviewSession[]>([]);
+  const [loadErrors, setLoadErrors] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [selected, setSelected] = useState<SelectedTrial | null>(null);
+
+  const {
+    currentTrajectory,
+    setCurrentTrajectory,
+    setRobotConfig,
+    setTargetPosition,
+    setRecordingState,
+    recordingState,
+    startPlayback,
+    stopPlayback,
+    playbackPosition,
+    setPlaybackFrame,
+    overlayTraces,
+    setOverlayTraces,
+    showGhostArms,
+    setShowGhostArms,
+    playbackOptions,
+    setPlaybackOptions
+  } = useAppContext();
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+
+    setIsLoading(true);
+    const loaded: ReviewSession[] = [];
+    const errors: string[] = [];
+
+    for (const file of Array.from(files)) {
+      try {
+        loaded.push(await importSessionZip(file));
+      } catch (error) {
+        errors.push(error instanceof Error ? error.message : `${file.name}: ${String(error)}`);
+      }
+    }
+
+    // Reloading a ZIP replaces the sessions it contained
+    setSessions(prev => {
+      const keys = new Set(loaded.map(getSessionKey));
+      return [...prev.filter(session => !keys.has(getSessionKey(session))), ...loaded];
+    });
+    setLoadErrors(errors);
+    setIsLoading(false);
+  };
+
+  const selectTrial = (session: ReviewSession, trialIndex: number) => {
+    const trajectory = session.trials[trialIndex].trajectory;
+    if (!trajectory || trajectory.frames.length === 0) return;
+
+    // Replay on the arm the motion was recorded with; apply the preset's limits when the link count matches
+    const preset = trajectory.posePreset ? POSE_PRESETS[trajectory.posePreset] : undefined;
+    const lastFrame = trajectory.frames[trajectory.frames.length - 1];
+    const jointLimits = preset && preset.linkLengths.length === lastFrame.jointAngles.length
+      ? preset.jointLimits
+      : [];
+
+    setRecordingState('paused');
+    setRobotConfig(robotConfigFromFrame(lastFrame, jointLimits));
+    setTargetPosition(preset?.targetPosition ?? trajectory.targetPosition);
+    // Waypoints are not exported; they come from the preset, like the target
+    setCurrentTrajectory(preset?.waypoints && !trajectory.waypoints
+      ? { ...trajectory, waypoints: preset.waypoints, waypointsInOrder: preset.waypointsInOrder }
+      : trajectory);
+    setPlaybackFrame(trajectory.frames.length - 1);
+    setPlaybackOptions(prev => ({ ...prev, loopRange: null }));
+    setSelected({ sessionKey: getSessionKey(session), trialIndex });
+  };
+
+  const selectedSession = sessions.find(session => getSessionKey(session) === selected?.sessionKey);
+  const selectedTrial = selected && selectedSession?.trials[selected.trialIndex];
+
+  const handlePlayback = () => {
+    if (recordingState === 'playing') {
+      stopPlayback();
+    } else {
+      const totalFrames = currentTrajectory?.frames.length || 0;
+      startPlayback(getPlaybackStartPosition(totalFrames, playbackPosition, playbackOptions));
+    }
+  };
+
+  // Overlay every loaded recording of the selected prompt, one trace per participant trial
+  const overlaySelectedPrompt = () => {
+    if (!selectedTrial) return;
+
+    const entries = sessions.flatMap(session => {
+      const matches = session.trials.filter(trial => trial.promptType === selectedTrial.promptType && trial.trajectory);
+      return matches.map((trial, index) => ({
+        id: `${getSessionKey(session)}/${trial.promptType}/${index}`,
+        label: matches.length > 1 ? `${session.participantId} #${index + 1}` : session.participantId,
+        trajectory: trial.trajectory as MotionTrajectory
+      }));
+    });
+    setOverlayTraces(createOverlayTraces(entries));
+  };
+
+  // Overlay every prompt of the selected session
+  const overlaySelectedSession = () => {
+    if (!selectedSession) return;
+
+    const promptCounts = new Map<string, number>();
+    const entries = selectedSession.trials.flatMap((trial, index) => {
+      if (!trial.trajectory) return [];
+      const count = (promptCounts.get(trial.promptType) ?? 0) + 1;
+      promptCounts.set(trial.promptType, count);
+      return [{
+        id: `${getSessionKey(selectedSession)}/${index}`,
+        label: count > 1 ? `${trial.promptType} #${count}` : trial.promptType,
+        trajectory: trial.trajectory
+      }];
+    });
+    setOverlayTraces(createOverlayTraces(entries));
+  };
+
+  const toggleTrace = (id: string) => {
+    setOverlayTraces(prev => prev.map(trace => trace.id === id ? { ...trace, visible: !trace.visible } : trace));
+  };
+
+  // Group sessions by participant, in load order
+  const participants = new Map<string, ReviewSession[]>();
+  sessions.forEach(session => {
+    participants.set(session.participantId, [...(participants.get(session.participantId) ?? []), session]);
+  });
+
+  const hasFrames = (currentTrajectory?.frames.length || 0) > 0;
+
+  return (
+    <div className="app-main review-main">
+      <div className="top-bar">
+        <div className="top-bar-left review-header">
+          <h1 className="review-title">Motion Review</h1>
+          <label className={`control-button review-load-button ${isLoading ? 'disabled' : ''}`}>
+            <Upload size={16} />
+            <span className="label">{isLoading ? 'Loading...' : 'Load ZIPs'}</span>
+            <input
+              type="file"
+              accept=".zip,application/zip"
+              multiple
+              disabled={isLoading}
+              onChange={(e) => {
+                handleFiles(e.target.files);
+                e.target.value = '';
+              }}
+            />
+          </label>
+        </div>
+        <div className="top-bar-right">
+          <ThemeToggle />
+        </div>
+      </div>
+
+      <div className="review-body">
+        <aside className="review-sidebar">
+          {loadErrors.length > 0 && (
+            <div className="review-errors">
+              {loadErrors.map((error, index) => <p key={index}>{error}</p>)}
+            </div>
+          )}
+
+          {selectedTrial && (
+            <div className="review-compare">
+              <p className="review-compare-title">Compare</p>
+              <button className="review-compare-button" onClick={overlaySelectedPrompt}>
+                All &ldquo;{selectedTrial.promptType}&rdquo; motions
+              </button>
+              <button className="review-compare-button" onClick={overlaySelectedSession}>
+                All prompts of this session
+              </button>
+            </div>
+          )}
+
+          {sessions.length === 0 && (
+            <p className="review-empty">
+              Load one or more <code>robot_arm_data_*.zip</code> files exported at the end of a session.
+            </p>
+          )}
+
+          {Array.from(participants.entries()).map(([participantId, participantSessions]) => (
+            <div key={participantId} className="review-participant">
+              <h2 className="review-participant-id">{participantId}</h2>
+              {participantSessions.map(session => (
+                <div key={getSessionKey(session)} className="review-session">
+                  <p className="review-session-meta" title={session.sourceFile}>
+                    {session.sessionId} &middot; {session.promptSet}
+                  </p>
+                  <ol className="review-trials">
+                    {session.trials.map((trial, index) => {
+                      const isSelected = selected?.sessionKey === getSessionKey(session) && selected.trialIndex === index;
+                      return (
+                        <li key={index}>
+                          <button
+                            className={`review-trial ${isSelected ? 'selected' : ''}`}
+                            onClick={() => selectTrial(session, index)}
+                            disabled={!trial.trajectory || recordingState === 'playing'}
+                            title={trial.trajectory ? trial.promptText : 'Trajectory CSV missing from the ZIP'}
+                          >
+                            <span className="review-trial-prompt">{trial.promptType}</span>
+                            <span className="review-trial-info">
+                              {(trial.totalTimeMs / 1000).toFixed(1)}s
+                              {trial.posePreset && ` · ${trial.posePreset}`}
+                              {!trial.completed && ' · incomplete'}
+                            </span>
+                          </button>
+                        </li>
+                      );
+                    })}
+                  </ol>
+                </div>
+              ))}
+            </div>
+          ))}
+        </aside>
+
+        <div className="review-canvas">
+          <RobotArm />
+
+          {overlayTraces.length > 0 && (
+            <div className="overlay-legend">
+              {overlayTraces.map(trace => (
+                <label key={trace.id} className="overlay-legend-item">
+                  <input type="checkbox" checked={trace.visible} onChange={() => toggleTrace(trace.id)} />
+                  <span className="overlay-swatch" style={{ backgroundColor: trace.color }} />
+                  <span>{trace.label}</span>
+                </label>
+              ))}
+              <div className="overlay-legend-actions">
+                <label className="overlay-legend-item">
+                  <input
+                    type="checkbox"
+                    checked={showGhostArms}
+                    onChange={(e) => setShowGhostArms(e.target.checked)}
+                  />
+                  <span>Ghost arms</span>
+                </label>
+                <button className="overlay-clear-button" onClick={() => setOverlayTraces([])}>
+                  Clear
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="controls-container">
+        {selectedTrial && (
+          <p className="review-selection">
+            {selectedSession?.participantId} &middot; {selectedTrial.promptType}: &ldquo;{selectedTrial.promptText}&rdquo;
+            {' '}({describeFrames(currentTrajectory)})
+          </p>
+        )}
+        <div className="controls-main">
+          <Timeline allowRedraw={false} />
+          <div className="controls-group">
+            <button
+              className={`control-button ${recordingState === 'playing' ? 'recording' : ''}`}
+              onClick={handlePlayback}
+              disabled={!hasFrames}
+              title={recordingState === 'playing' ? 'Stop playback' : 'Play selected motion'}
+            >
+              {recordingState === 'playing' ? <Pause size={16} /> : <Play size={16} />}
+              <span className="label">{recordingState === 'playing' ? 'Pause' : 'Play'}</span>
+            </button>
+          </div>
+        </div>
+        {hasFrames && <PlaybackControls />}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Frame count and joint count of the replayed trajectory
+ */
+function describeFrames(trajectory: MotionTrajectory | null): string {
+  if (!trajectory || trajectory.frames.length === 0) return 'no frames';
+  return `${trajectory.frames.length} frames, ${trajectory.frames[0].jointAngles.length} joints`;
+}
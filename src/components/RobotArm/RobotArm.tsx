@@ -1,28 +1,43 @@
 /**
  * RobotArm component
- * Mouse-follow control system with automatic recording
+ * Pointer-follow control system with automatic recording
  */
 
-import { useRef, useEffect } from 'react';
+import { useRef, useEffect, useMemo } from 'react';
 import { useAppContext } from '../../context/AppContext';
 import { forwardKinematics } from '../../utils/kinematics';
-import { CANVAS_CONFIG } from '../../constants/config';
+import { CANVAS_CONFIG, COLLISION_CONFIG, CONTROLLER_CONFIG } from '../../constants/config';
 import { useMouseTracking } from '../../hooks/useMouseTracking';
 import { useRobotControl } from '../../hooks/useRobotControl';
+import { useTeleoperation } from '../../hooks/useTeleoperation';
+import { getFrameAtElapsedTime } from '../../utils/overlay';
+import { getTimeAtFramePosition } from '../../utils/playback';
+import { getArmCollisions } from '../../utils/collision';
+import { getWaypointHits, getPendingWaypoints } from '../../utils/waypoints';
+import { OVERLAY_CONFIG } from '../../constants/config';
 import { useRecording } from '../../hooks/useRecording';
 import { usePlayback } from '../../hooks/usePlayback';
+import { useControllerSimulation } from '../../hooks/useControllerSimulation';
 import { useTargetDetection } from '../../hooks/useTargetDetection';
 import {
   clearCanvas,
   drawWorkspace,
   drawRobotArmEnhanced,
+  drawJointLimits,
   drawTrajectoryPath,
+  drawGhostArm,
   drawTarget,
+  drawObstacles,
+  drawWaypoints,
   drawCursorIndicator,
-  drawRecordingIndicator
+  drawRecordingIndicator,
+  drawTrackingError
 } from '../../utils/canvasRendering';
+import type { PointerInput, ArmControl, Obstacle } from '../../types';
 import './RobotArm.css';
 
+const NO_OBSTACLES: Obstacle[] = [];
+
 export default function RobotArm() {
   const canvasRef = useRef<HTMLCanvasElement>(null);
 
@@ -30,46 +45,115 @@ export default function RobotArm() {
     robotConfig,
     setRobotConfig,
     targetPosition,
+    targetRadius,
+    setTargetPose,
     recordingState,
     currentTrajectory,
     setCurrentTrajectory,
     startRecording,
     stopRecording,
     stopPlayback,
-    playbackFrame,
-    setPlaybackFrame
+    playbackPosition,
+    setPlaybackPosition,
+    overlayTraces,
+    showGhostArms,
+    playbackOptions,
+    mouseSensitivity,
+    currentPosePreset,
+    appState
   } = useAppContext();
 
-  // Mouse tracking and event handlers
+  const obstacles = currentPosePreset.obstacles ?? NO_OBSTACLES;
+
+  // Pointer and jogs drive the arm only during a study prompt (not in the review dashboard),
+  // and not while a motion is replayed
+  const controlEnabled = appState === 'recording' && recordingState !== 'playing' && recordingState !== 'paused';
+
+  // Pointer tracking and event handlers (mouse, pen and touch)
   const {
     mousePosition,
+    pointerPath,
+    pointerDetails,
+    control,
     isFollowing,
     setIsFollowing,
-    handleMouseMove,
-    handleMouseDown,
-    handleMouseLeave
+    handlePointerMove,
+    handlePointerDown,
+    handlePointerUp,
+    handlePointerLeave
   } = useMouseTracking({ canvasRef, robotConfig });
 
-  // Robot movement control
-  useRobotControl({
-    mousePosition,
-    isFollowing,
+  // Keyboard and gamepad jogging
+  const {
+    teleopTarget,
+    jointTarget,
+    activeDevice,
+    jogMode,
+    toggleJogMode
+  } = useTeleoperation({ robotConfig, enabled: controlEnabled });
+
+  // Robot movement control (a Cartesian jog acts as a pointer that is always following)
+  const { actualTargetPosition, isTargetClamped, blockedCollisions } = useRobotControl({
+    mousePosition: teleopTarget ?? mousePosition,
+    pointerPath: teleopTarget ? [teleopTarget] : pointerPath,
+    jointTarget,
+    grabbedJoint: teleopTarget ? null : control.joint,
+    sensitivity: teleopTarget ? null : mouseSensitivity,
+    isFollowing: isFollowing || teleopTarget !== null,
     setIsFollowing,
     robotConfig,
     setRobotConfig,
     targetPosition,
+    targetRadius,
+    obstacles,
+    collisionMode: currentPosePreset.collisionMode ?? COLLISION_CONFIG.defaultMode,
+    enabled: controlEnabled,
     recordingState,
     currentTrajectory,
     startRecording,
     stopRecording
   });
 
+  // Raw input recorded with each frame, alongside the resulting arm state
+  // While jogging, the device replaces the pointer (joint jogs have no Cartesian target)
+  const pointerInput = useMemo<PointerInput>(() => (activeDevice
+    ? {
+      pointerType: activeDevice,
+      pressure: 0,
+      tiltX: 0,
+      tiltY: 0,
+      buttons: 0,
+      pointerPosition: teleopTarget,
+      clampedTarget: teleopTarget ? actualTargetPosition : null,
+      clamped: teleopTarget ? isTargetClamped : false,
+      isFollowing: true
+    }
+    : {
+      ...pointerDetails,
+      pointerPosition: mousePosition,
+      clampedTarget: actualTargetPosition,
+      clamped: isTargetClamped,
+      isFollowing
+    }
+  ), [activeDevice, teleopTarget, pointerDetails, mousePosition, actualTargetPosition, isTargetClamped, isFollowing]);
+
+  // Control mode recorded with each frame (joint jogs may turn several joints at once)
+  const armControl = useMemo<ArmControl>(() => (activeDevice
+    ? { mode: teleopTarget ? 'end-effector' : 'joint', joint: null }
+    : control
+  ), [activeDevice, teleopTarget, control]);
+
   // Recording functionality
   useRecording({
     recordingState,
     robotConfig,
     currentTrajectory,
-    setCurrentTrajectory
+    setCurrentTrajectory,
+    pointerInput,
+    armControl,
+    obstacles,
+    blockedCollisions,
+    setTargetPose
   });
 
   // Playback functionality
@@ -79,14 +163,25 @@ export default function RobotArm() {
     robotConfig,
     setRobotConfig,
     stopPlayback,
-    playbackFrame,
-    setPlaybackFrame
+    playbackPosition,
+    setPlaybackPosition,
+    playbackOptions
+  });
+
+  // Execution mode: simulated joint controllers track the replayed (commanded) pose
+  const execution = useControllerSimulation({
+    enabled: playbackOptions.simulateController,
+    recordingState,
+    currentTrajectory,
+    robotConfig,
+    playbackPosition
   });
 
   // Target detection
   useTargetDetection({
     robotConfig,
     targetPosition,
+    targetRadius,
     currentTrajectory,
     setCurrentTrajectory
   });
@@ -111,23 +206,76 @@ export default function RobotArm() {
     clearCanvas(ctx);
 
     // Draw workspace area (range circle centered on robot base)
-    drawWorkspace(ctx, robotConfig.shoulderPosition);
+    drawWorkspace(ctx, robotConfig.shoulderPosition, robotConfig.linkLengths);
 
-    // Calculate arm positions
-    const { elbowPosition, endEffectorPosition } = forwardKinematics(robotConfig);
+    // Calculate arm positions (the executed arm, when the controllers are simulated)
+    const armConfig = execution ? { ...robotConfig, jointAngles: execution.jointAngles } : robotConfig;
+    const { jointPositions, endEffectorPosition } = forwardKinematics(armConfig);
 
-    // Draw trajectory path first (underneath)
+    // Draw overlay paths first (underneath everything)
+    const visibleTraces = overlayTraces.filter(trace => trace.visible);
+    visibleTraces.forEach(trace => {
+      drawTrajectoryPath(ctx, trace.trajectory.frames, trace.color, OVERLAY_CONFIG.pathWidth);
+    });
+
+    // Draw trajectory path (underneath the arm)
     if (currentTrajectory && currentTrajectory.frames.length > 1) {
       drawTrajectoryPath(ctx, currentTrajectory.frames);
     }
 
-    // Draw target
-    if (targetPosition) {
-      drawTarget(ctx, targetPosition);
+    // Draw target (a replayed moving target is shown where it was at the shown frame)
+    const isReplaying = recordingState === 'playing' || recordingState === 'paused';
+    const replayedTarget = isReplaying
+      ? currentTrajectory?.frames[Math.floor(playbackPosition)]?.target
+      : undefined;
+    if (replayedTarget) {
+      drawTarget(ctx, replayedTarget.position, replayedTarget.radius);
+    } else if (targetPosition) {
+      drawTarget(ctx, targetPosition, targetRadius);
+    }
+
+    // Draw waypoints, marking the ones already passed
+    if (currentTrajectory?.waypoints && currentTrajectory.waypoints.length > 0) {
+      drawWaypoints(
+        ctx,
+        currentTrajectory.waypoints,
+        getWaypointHits(currentTrajectory),
+        getPendingWaypoints(currentTrajectory)
+      );
+    }
+
+    // Draw obstacles, highlighting the ones the arm touches or was stopped by
+    if (obstacles.length > 0) {
+      const contacts = [...getArmCollisions(robotConfig, obstacles), ...blockedCollisions];
+      drawObstacles(ctx, obstacles, contacts.map(collision => collision.obstacle));
+    }
+
+    // Ghost arms show where each overlay trace is at the current playback time
+    if (showGhostArms && visibleTraces.length > 0) {
+      const frames = currentTrajectory?.frames ?? [];
+      const elapsedMs = frames.length > 0 ? getTimeAtFramePosition(frames, playbackPosition) - frames[0].timestamp : 0;
+
+      visibleTraces.forEach(trace => {
+        // The main arm already shows the current trajectory
+        if (trace.trajectory === currentTrajectory) return;
+        const ghostFrame = getFrameAtElapsedTime(trace.trajectory.frames, elapsedMs);
+        if (ghostFrame) {
+          drawGhostArm(ctx, ghostFrame.jointPositions, ghostFrame.endEffectorPosition, trace.color);
+        }
+      });
+    }
+
+    // The commanded arm is a ghost next to the executed one
+    if (execution) {
+      const commanded = forwardKinematics(robotConfig);
+      drawGhostArm(ctx, commanded.jointPositions, commanded.endEffectorPosition, CONTROLLER_CONFIG.commandedColor);
     }
 
+    // Draw allowed joint ranges underneath the arm
+    drawJointLimits(ctx, jointPositions, armConfig.jointAngles, armConfig.jointLimits);
+
     // Draw robot arm with depth
-    drawRobotArmEnhanced(ctx, robotConfig.shoulderPosition, elbowPosition, endEffectorPosition);
+    drawRobotArmEnhanced(ctx, jointPositions, endEffectorPosition);
 
     // Draw cursor indicator ONLY when NOT dragging
     // While dragging, the end effector itself shows where the robot is (direct manipulation)
@@ -139,43 +287,11 @@ export default function RobotArm() {
     if (recordingState === 'recording') {
       drawRecordingIndicator(ctx);
     }
-  }, [robotConfig, targetPosition, currentTrajectory, mousePosition, isFollowing, recordingState]);
-
-  // Touch event handlers for mobile
-  const handleTouchStart = (e: React.TouchEvent<HTMLCanvasElement>) => {
-    e.preventDefault();
-    const touch = e.touches[0];
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-
-    const mouseEvent = {
-      clientX: touch.clientX,
-      clientY: touch.clientY,
-      currentTarget: canvas
-    } as React.MouseEvent<HTMLCanvasElement>;
-
-    handleMouseDown(mouseEvent);
-  };
-
-  const handleTouchMove = (e: React.TouchEvent<HTMLCanvasElement>) => {
-    e.preventDefault();
-    const touch = e.touches[0];
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-
-    const mouseEvent = {
-      clientX: touch.clientX,
-      clientY: touch.clientY,
-      currentTarget: canvas
-    } as React.MouseEvent<HTMLCanvasElement>;
 
-    handleMouseMove(mouseEvent);
-  };
-
-  const handleTouchEnd = (e: React.TouchEvent<HTMLCanvasElement>) => {
-    e.preventDefault();
-    handleMouseLeave();
-  };
+    if (execution) {
+      drawTrackingError(ctx, execution.trackingError);
+    }
+  }, [robotConfig, execution, targetPosition, targetRadius, obstacles, blockedCollisions, currentTrajectory, mousePosition, isFollowing, recordingState, overlayTraces, showGhostArms, playbackPosition]);
 
   return (
     <div className="robot-arm-container">
@@ -183,15 +299,22 @@ export default function RobotArm() {
         ref={canvasRef}
         width={CANVAS_CONFIG.width}
         height={CANVAS_CONFIG.height}
-        onMouseMove={handleMouseMove}
-        onMouseDown={handleMouseDown}
-        onMouseLeave={handleMouseLeave}
-        onTouchStart={handleTouchStart}
-        onTouchMove={handleTouchMove}
-        onTouchEnd={handleTouchEnd}
-        onTouchCancel={handleTouchEnd}
+        onPointerMove={handlePointerMove}
+        onPointerDown={handlePointerDown}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onPointerLeave={handlePointerLeave}
         className="robot-arm-canvas"
       />
+      {recordingState !== 'playing' && recordingState !== 'paused' && (
+        <button
+          className="jog-mode-button"
+          onClick={toggleJogMode}
+          title="Keyboard jogging: arrows/WASD move the end effector; Q/A, W/S, E/D... turn joints 1, 2, 3...; Shift for fine steps. Gamepad sticks turn the joints."
+        >
+          Keys: {jogMode === 'cartesian' ? 'end effector' : 'joints'} (M)
+        </button>
+      )}
     </div>
   );
 }
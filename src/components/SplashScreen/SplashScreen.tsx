@@ -6,21 +6,32 @@
 import { useState } from 'react';
 import { useAppContext } from '../../context/AppContext';
 import { generateRandomParticipantId } from '../../utils/dataExport';
+import { isSnapshotStale } from '../../utils/sessionPersistence';
 import './SplashScreen.css';
 
 export default function SplashScreen() {
   const [userId, setUserId] = useState('');
-  const { initializeSession, setAppState } = useAppContext();
+  const {
+    protocol,
+    protocolError,
+    initializeSession,
+    setAppState,
+    savedSession,
+    resumeSession,
+    discardSavedSession
+  } = useAppContext();
+
+  // A saved session can only be resumed under the protocol it was started with
+  const canResume = !!protocol && savedSession?.userSession.protocolName === protocol.name;
 
   const handleStart = () => {
-    // Randomly assign prompt set
-    const promptSet = Math.random() < 0.5 ? 'laban' : 'metaphor';
+    if (!protocol) return;
 
     // Generate random ID if user didn't provide one
     const participantId = userId.trim() || generateRandomParticipantId();
 
-    // Initialize session
-    initializeSession(participantId, promptSet);
+    // Initialize session (prompt set and order come from the study protocol)
+    initializeSession(participantId);
 
     // Move to tutorial
     setAppState('tutorial');
@@ -36,7 +47,7 @@ export default function SplashScreen() {
 
         <div className="splash-description">
           <p>
-            Welcome to the Robot Arm Simulator. In this study, you will create 8 different
+            Welcome to the Robot Arm Simulator. In this study, you will create {protocol?.trialCount ?? 'several'} different
             motions using a 2D robot arm. Each motion will be guided by a prompt describing
             a quality or feeling to express through movement.
           </p>
@@ -46,6 +57,32 @@ export default function SplashScreen() {
           </p>
         </div>
 
+        {savedSession && (
+          <div className="resume-section">
+            <p className="resume-title">
+              {isSnapshotStale(savedSession) ? 'An old unfinished session was found' : 'You have an unfinished session'}
+            </p>
+            <p className="resume-details">
+              Participant {savedSession.userSession.userId} &middot;{' '}
+              {savedSession.userSession.completedMotions.length} of {savedSession.userSession.promptOrder.length} motions
+              completed &middot; last saved {new Date(savedSession.savedAt).toLocaleString()}
+            </p>
+            {protocol && !canResume && (
+              <p className="resume-details">
+                This session was started with a different study protocol and cannot be resumed.
+              </p>
+            )}
+            <div className="resume-actions">
+              <button className="resume-button" onClick={resumeSession} disabled={!canResume}>
+                Resume Session
+              </button>
+              <button className="discard-button" onClick={discardSavedSession}>
+                Discard
+              </button>
+            </div>
+          </div>
+        )}
+
         <div className="user-id-section">
           <label htmlFor="userId" className="user-id-label">
             Participant ID (optional)
@@ -64,8 +101,16 @@ export default function SplashScreen() {
           </p>
         </div>
 
-        <button className="start-button" onClick={handleStart}>
-          Begin Tutorial
+        {protocolError && (
+          <p className="protocol-error">
+            The study could not be loaded. Please contact the researchers.
+            <br />
+            <code>{protocolError}</code>
+          </p>
+        )}
+
+        <button className="start-button" onClick={handleStart} disabled={!protocol}>
+          {protocol || protocolError ? (savedSession ? 'Start New Session' : 'Begin Tutorial') : 'Loading Study...'}
         </button>
       </div>
     </div>
@@ -1,16 +1,33 @@
 /**
  * Timeline component
  * Displays motion timeline with scrubbing capability
+ * While a retiming is previewed, the elapsed time at each frame is drawn above the bar for
+ * both the original and the retimed motion, with their durations.
  */
 
 import React, { useRef, useState, useEffect } from 'react';
 import { useAppContext } from '../../context/AppContext';
+import { clampJointAngles } from '../../utils/kinematics';
+import { getPlaybackFrameRange, interpolateJointAngles } from '../../utils/playback';
+import type { MotionFrame, MotionTrajectory } from '../../types';
 import './Timeline.css';
 
 // Track if user has seen the redraw hint (persists across component remounts within session)
 let hasShownRedrawHint = false;
 
-export default function Timeline() {
+interface TimelineProps {
+  allowRedraw?: boolean;  // Show "Redraw from Here" (off when replaying someone else's motion)
+  timingPreview?: MotionTrajectory | null;  // Original timing to compare against (retiming preview)
+}
+
+/**
+ * Elapsed time of the last frame, in ms
+ */
+function getDuration(frames: MotionFrame[]): number {
+  return frames.length > 0 ? frames[frames.length - 1].timestamp - frames[0].timestamp : 0;
+}
+
+export default function Timeline({ allowRedraw = true, timingPreview = null }: TimelineProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [isDragging, setIsDragging] = useState(false);
   const [showRedrawConfirm, setShowRedrawConfirm] = useState(false);
@@ -18,13 +35,17 @@ export default function Timeline() {
   const {
     currentTrajectory,
     setRobotConfig,
-    robotConfig,
     redrawFromFrame,
+    playbackPosition,
+    setPlaybackPosition,
     playbackFrame,
     setPlaybackFrame,
-    recordingState
+    recordingState,
+    playbackOptions
   } = useAppContext();
 
+  const { loopRange } = playbackOptions;
+
   // Use playbackFrame from context as the current frame
   const currentFrame = playbackFrame;
 
@@ -72,15 +93,54 @@ export default function Timeline() {
     ctx.roundRect(0, barY, width, barHeight, 3);
     ctx.fill();
 
-    // Draw progress bar (primary color)
-    const progressWidth = totalFrames > 1 ? (currentFrame / (totalFrames - 1)) * width : width;
+    // Draw A–B loop range with end markers
+    if (loopRange && totalFrames > 1) {
+      const range = getPlaybackFrameRange(totalFrames, loopRange);
+      const rangeStartX = (range.start / (totalFrames - 1)) * width;
+      const rangeEndX = (range.end / (totalFrames - 1)) * width;
+
+      ctx.fillStyle = primaryColor;
+      ctx.globalAlpha = 0.2;
+      ctx.fillRect(rangeStartX, barY - 6, rangeEndX - rangeStartX, barHeight + 12);
+      ctx.globalAlpha = 1.0;
+      ctx.fillRect(rangeStartX - 1, barY - 6, 2, barHeight + 12);
+      ctx.fillRect(rangeEndX - 1, barY - 6, 2, barHeight + 12);
+    }
+
+    // Elapsed time against frame, original (light) and retimed (primary), in the space above the bar
+    const previewFrames = timingPreview?.frames;
+    if (previewFrames && previewFrames.length === totalFrames && totalFrames > 1) {
+      const frames = currentTrajectory.frames;
+      const longest = Math.max(getDuration(previewFrames), getDuration(frames), 1);
+      const curveBottom = barY - 8;
+      const curveHeight = curveBottom - 2;
+
+      const drawTiming = (timed: MotionFrame[], color: string) => {
+        ctx.strokeStyle = color;
+        ctx.lineWidth = 1.5;
+        ctx.beginPath();
+        timed.forEach((frame, i) => {
+          const x = (i / (totalFrames - 1)) * width;
+          const y = curveBottom - ((frame.timestamp - timed[0].timestamp) / longest) * curveHeight;
+          if (i === 0) ctx.moveTo(x, y);
+          else ctx.lineTo(x, y);
+        });
+        ctx.stroke();
+      };
+
+      drawTiming(previewFrames, textLightColor);
+      drawTiming(frames, primaryColor);
+    }
+
+    // Draw progress bar (primary color), following the position between frames
+    const progressWidth = totalFrames > 1 ? (playbackPosition / (totalFrames - 1)) * width : width;
     ctx.fillStyle = primaryColor;
     ctx.beginPath();
     ctx.roundRect(0, barY, progressWidth, barHeight, 3);
     ctx.fill();
 
     // Draw scrubber circle
-    const scrubberX = totalFrames > 1 ? (currentFrame / (totalFrames - 1)) * width : width / 2;
+    const scrubberX = totalFrames > 1 ? (playbackPosition / (totalFrames - 1)) * width : width / 2;
     ctx.fillStyle = primaryColor;
     ctx.beginPath();
     ctx.arc(scrubberX, height / 2, scrubberRadius, 0, Math.PI * 2);
@@ -101,8 +161,11 @@ export default function Timeline() {
     ctx.imageSmoothingEnabled = true;
     ctx.imageSmoothingQuality = 'high';
 
-    ctx.fillText(`Frame ${currentFrame + 1} / ${totalFrames}`, width / 2, height - 5);
-  }, [currentFrame, totalFrames, currentTrajectory]);
+    const timingLabel = previewFrames
+      ? ` · ${(getDuration(previewFrames) / 1000).toFixed(1)} s → ${(getDuration(currentTrajectory.frames) / 1000).toFixed(1)} s`
+      : '';
+    ctx.fillText(`Frame ${currentFrame + 1} / ${totalFrames}${timingLabel}`, width / 2, height - 5);
+  }, [currentFrame, playbackPosition, totalFrames, currentTrajectory, loopRange, timingPreview]);
 
   // Update robot config when scrubbing (only when not playing - playback handles its own updates)
   useEffect(() => {
@@ -110,15 +173,13 @@ export default function Timeline() {
     // Don't update during playback - usePlayback handles that
     if (recordingState === 'playing') return;
 
-    const frame = currentTrajectory.frames[currentFrame];
-    if (frame) {
-      setRobotConfig({
-        ...robotConfig,
-        shoulderAngle: frame.shoulderAngle,
-        elbowAngle: frame.elbowAngle
-      });
-    }
-  }, [currentFrame, recordingState]);
+    // Show the pose interpolated between the frames either side of the scrubber
+    const jointAngles = interpolateJointAngles(currentTrajectory.frames, playbackPosition);
+    setRobotConfig(prevConfig => ({
+      ...prevConfig,
+      jointAngles: clampJointAngles(jointAngles, prevConfig.jointLimits)
+    }));
+  }, [playbackPosition, recordingState]);
 
   const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
     setIsDragging(true);
@@ -144,9 +205,9 @@ export default function Timeline() {
     const rect = canvas.getBoundingClientRect();
     const x = e.clientX - rect.left;
     const ratio = x / rect.width;
-    const frameIndex = Math.round(ratio * (totalFrames - 1));
+    const position = ratio * (totalFrames - 1);
 
-    setPlaybackFrame(Math.max(0, Math.min(totalFrames - 1, frameIndex)));
+    setPlaybackPosition(Math.max(0, Math.min(totalFrames - 1, position)));
   };
 
   // Touch event handlers for mobile
@@ -163,9 +224,9 @@ export default function Timeline() {
     const rect = canvas.getBoundingClientRect();
     const x = touch.clientX - rect.left;
     const ratio = x / rect.width;
-    const frameIndex = Math.round(ratio * (totalFrames - 1));
+    const position = ratio * (totalFrames - 1);
 
-    setPlaybackFrame(Math.max(0, Math.min(totalFrames - 1, frameIndex)));
+    setPlaybackPosition(Math.max(0, Math.min(totalFrames - 1, position)));
   };
 
   const handleTouchMove = (e: React.TouchEvent<HTMLCanvasElement>) => {
@@ -181,9 +242,9 @@ export default function Timeline() {
     const rect = canvas.getBoundingClientRect();
     const x = touch.clientX - rect.left;
     const ratio = x / rect.width;
-    const frameIndex = Math.round(ratio * (totalFrames - 1));
+    const position = ratio * (totalFrames - 1);
 
-    setPlaybackFrame(Math.max(0, Math.min(totalFrames - 1, frameIndex)));
+    setPlaybackPosition(Math.max(0, Math.min(totalFrames - 1, position)));
   };
 
   const handleTouchEnd = () => {
@@ -221,7 +282,7 @@ export default function Timeline() {
     return (
       <div className="timeline-container">
         <div className="timeline-empty">
-          Click on the blue end effector to start recording
+          {allowRedraw ? 'Click on the blue end effector to start recording' : 'No motion selected'}
         </div>
       </div>
     );
@@ -245,14 +306,16 @@ export default function Timeline() {
         onTouchCancel={handleTouchEnd}
         className="timeline-canvas"
       />
-      <button
-        className="redraw-button"
-        onClick={handleRedrawFromHere}
-        disabled={!canRedraw}
-        title={canRedraw ? "Delete everything after this frame and redraw from here" : "Scrub to a frame in the middle to redraw"}
-      >
-        Redraw from Here
-      </button>
+      {allowRedraw && (
+        <button
+          className="redraw-button"
+          onClick={handleRedrawFromHere}
+          disabled={!canRedraw}
+          title={canRedraw ? "Delete everything after this frame and redraw from here" : "Scrub to a frame in the middle to redraw"}
+        >
+          Redraw from Here
+        </button>
+      )}
 
       {showRedrawConfirm && (
         <div className="modal-overlay" onClick={cancelRedraw}>
@@ -40,7 +40,7 @@ const tutorialSteps = [
   },
   {
     title: 'Completing a Motion',
-    content: 'When the arm reaches the green target, the Complete button will activate. Click it to save your motion and move on to the next prompt. You will create 8 motions in total.',
+    content: 'When the arm reaches the green target, the Complete button will activate. Click it to save your motion and move on to the next prompt. You will create {trialCount} motions in total.',
     image: null
   },
   {
@@ -52,7 +52,7 @@ const tutorialSteps = [
 
 export default function Tutorial() {
   const [currentStep, setCurrentStep] = useState(0);
-  const { setAppState } = useAppContext();
+  const { setAppState, userSession } = useAppContext();
 
   const handleNext = () => {
     if (currentStep < tutorialSteps.length - 1) {
@@ -74,6 +74,7 @@ export default function Tutorial() {
   };
 
   const step = tutorialSteps[currentStep];
+  const stepContent = step.content.replace('{trialCount}', String(userSession?.promptOrder.length ?? 0));
   const isLastStep = currentStep === tutorialSteps.length - 1;
 
   return (
@@ -84,7 +85,7 @@ export default function Tutorial() {
         </div>
 
         <h2 className="tutorial-title">{step.title}</h2>
-        <p className="tutorial-text">{step.content}</p>
+        <p className="tutorial-text">{stepContent}</p>
 
         <div className="tutorial-navigation">
           <button
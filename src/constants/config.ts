@@ -2,7 +2,15 @@
  * application configuration constants
  */
 
-import type { Vector2D, PosePreset } from '../types';
+import type {
+  Vector2D,
+  PosePreset,
+  RobotArmConfig,
+  CollisionMode,
+  RetimingMode,
+  SmoothingFilter,
+  SmoothingDomain
+} from '../types';
 
 /**
  * colors just to have
@@ -23,17 +31,30 @@ export const COLORS = {
   grid: '#e5e7eb'          // Very light gray
 } as const;
 
+/**
+ * Joint angle limits (radians)
+ * The shoulder turns all the way around; the other joints stop short of folding
+ * a link back onto the previous one
+ */
+export const JOINT_LIMITS = {
+  shoulder: { min: -Math.PI, max: Math.PI },                                  // Full rotation
+  elbow: { min: -(165 * Math.PI / 180), max: (165 * Math.PI / 180) },         // ±165 degrees
+  wrist: { min: -(150 * Math.PI / 180), max: (150 * Math.PI / 180) }          // ±150 degrees (extra links)
+} as const;
+
 /**
  * robot arm physical configuration
  */
 export const ROBOT_CONFIG = {
-  upperArmLength: 150,            // pixels (increased from 150)
-  lowerArmLength: 130,            // pixels (increased from 120)
+  linkLengths: [150, 130],        // pixels, upper arm then lower arm (increased from 150/120)
   jointRadius: 8,                 // pixels
   armThickness: 6,                // pixels
   endEffectorRadius: 10,          // pixels
-  initialShoulderAngle: -(80 * Math.PI / 180),  // -80 degrees (upward) THIS IS BASE
-  initialElbowAngle: (160 * Math.PI / 180)      // 25 degrees THIS IS ELBOW! between joints
+  initialJointAngles: [
+    -(80 * Math.PI / 180),        // -80 degrees (upward) THIS IS BASE
+    (160 * Math.PI / 180)         // 160 degrees THIS IS ELBOW! between joints
+  ],
+  jointLimits: [JOINT_LIMITS.shoulder, JOINT_LIMITS.elbow]
 } as const;
 
 /**
@@ -62,6 +83,86 @@ export const TARGET_CONFIG = {
   strokeWidth: 3
 } as const;
 
+/**
+ * Obstacle configuration
+ */
+export const COLLISION_CONFIG = {
+  defaultMode: 'log' as CollisionMode,  // For presets that do not set collisionMode
+  fillColor: '#cbd5e1',                 // Slate
+  strokeColor: '#64748b',
+  contactColor: COLORS.danger,          // Obstacles the arm touches or is blocked by
+  contactFillColor: 'rgba(239, 68, 68, 0.25)', // Danger, translucent
+  sweepStepPx: 4,                       // Furthest any point of the arm moves between block-mode checks
+  maxSweepSteps: 200                    // Checks per move at most (a move across the whole canvas)
+} as const;
+
+/**
+ * Arm dynamics model
+ * Links are uniform rods of the given linear density; the canvas arm is scaled to a
+ * desk-sized arm (150 px = 30 cm)
+ */
+export const DYNAMICS_CONFIG = {
+  metersPerPixel: 0.002,
+  linkDensity: 5,                   // kg per meter of link
+  gravity: 9.81,                    // m/s²
+  viscousFriction: 0.05,            // N·m·s/rad, every joint
+  coulombFriction: 0.02,            // N·m, every joint
+  torqueLimits: [12, 5, 3, 2],      // N·m, shoulder first; the last value repeats for longer arms
+  frictionVelocityThreshold: 1e-3   // rad/s below which a joint counts as still for Coulomb friction
+} as const;
+
+/**
+ * Simulated joint controllers (execution mode)
+ * A PID controller per joint tracks the recorded joint angles through the dynamics model;
+ * motor torques are limited by DYNAMICS_CONFIG.torqueLimits. Gains are per joint, shoulder
+ * first; the last value repeats for longer arms.
+ */
+export const CONTROLLER_CONFIG = {
+  kp: [150, 60, 30, 15],            // N·m/rad
+  ki: [100, 40, 20, 10],            // N·m/(rad·s)
+  kd: [12, 4, 1.5, 0.8],            // N·m·s/rad
+  maxIntegral: 0.2,                 // rad·s, anti-windup bound on each integral term
+  maxVelocity: 8,                   // rad/s, every joint
+  maxAcceleration: 60,              // rad/s², every joint
+  timestepMs: 1,                    // Fixed physics step
+  tickMs: 16,                       // How often the physics loop catches up with playback
+  checkpointMs: 100,                // Interval of saved states, so seeking back or ahead takes few steps
+  commandedColor: '#94a3b8'         // Ghost of the commanded arm
+} as const;
+
+/**
+ * Trajectory smoothing
+ * Each filter's parameter runs from its first value at strength 0 to its second at 100
+ * (geometrically for the frequencies)
+ */
+export const SMOOTHING_CONFIG = {
+  defaultFilter: 'gaussian' as SmoothingFilter,
+  defaultDomain: 'cartesian' as SmoothingDomain,
+  savitzkyGolayOrder: 3,            // Degree of the local polynomial
+  savitzkyGolayWindowMs: [50, 500], // Width of the fitted window
+  cutoffHz: [12, 1],                // Butterworth and smoothing spline cutoff
+  oneEuroMinCutoffHz: [8, 0.3],     // One-Euro cutoff when still
+  oneEuroBeta: {                    // One-Euro cutoff increase per unit of speed
+    joint: 0.3,                     // per rad/s
+    cartesian: 0.003                // per px/s
+  },
+  oneEuroDerivativeCutoffHz: 1      // One-Euro speed estimate cutoff
+} as const;
+
+/**
+ * Trajectory retiming
+ * Default joint limits the Retime tool re-times a motion to, and the ranges it offers
+ */
+export const RETIMING_CONFIG = {
+  defaultMode: 'time-optimal' as RetimingMode,
+  maxVelocity: 3,                   // rad/s, every joint
+  maxAcceleration: 20,              // rad/s², every joint
+  velocityRange: [0.5, 8],          // rad/s, slider bounds
+  accelerationRange: [2, 60],       // rad/s², slider bounds
+  minIntervalMs: 1,                 // Shortest time between frames, so no two share a timestamp
+  maxIterations: 100                // Passes that stretch intervals still over a limit
+} as const;
+
 /**
  * Recording configuration
  */
@@ -70,6 +171,43 @@ export const RECORDING_CONFIG = {
   frameInterval: 1000 / 60  // milliseconds per frame
 } as const;
 
+/**
+ * Data export configuration
+ */
+export const EXPORT_CONFIG = {
+  includeDerivatives: true, // Add velocity/acceleration/jerk columns to trajectory CSVs
+  includeDynamics: true,    // Add joint torque/power and torque-limit columns to trajectory CSVs
+  resampleRateHz: null as number | null, // Default fixed rate (Hz) for trajectory CSVs; null keeps the recorded frames
+  resampleRateOptions: [RECORDING_CONFIG.frameRate] // Rates offered at download besides the recorded frames
+} as const;
+
+/**
+ * Session persistence configuration
+ * The in-progress session and pending uploads are stored in IndexedDB so they survive a reload
+ */
+export const PERSISTENCE_CONFIG = {
+  databaseName: 'robot-arm-sim',
+  databaseVersion: 2,       // Bump when object stores are added
+  sessionStoreName: 'sessions',
+  uploadStoreName: 'uploads',
+  snapshotVersion: 1,       // Bump when SessionSnapshot changes shape
+  saveIntervalMs: 1000,     // Minimum time between writes while the session changes
+  staleAfterMs: 24 * 60 * 60 * 1000  // Saved sessions older than this are flagged as stale
+} as const;
+
+/**
+ * Data upload configuration
+ * The endpoint comes from VITE_UPLOAD_ENDPOINT at build time and can be overridden
+ * per study by a bundled protocol's uploadEndpoint; uploads are disabled when neither is set
+ */
+export const UPLOAD_CONFIG = {
+  endpoint: import.meta.env.VITE_UPLOAD_ENDPOINT ?? '',
+  maxAttempts: 5,           // Attempts per upload run before giving up until the next run
+  initialBackoffMs: 1000,   // Delay before the first retry, doubled for every further retry
+  maxBackoffMs: 30000,      // Upper bound on the retry delay
+  requestTimeoutMs: 30000   // Abort a request that takes longer than this
+} as const;
+
 /**
  * Mouse sensitivity configuration
  * Controls how responsive the robot arm is to mouse movements
@@ -89,18 +227,57 @@ export const TIMELINE_CONFIG = {
   tickInterval: 10          // frames between ticks
 } as const;
 
+/**
+ * Trajectory overlay configuration (review mode comparisons)
+ */
+export const OVERLAY_CONFIG = {
+  colors: [
+    '#e11d48',  // Rose
+    '#0891b2',  // Cyan
+    '#ca8a04',  // Yellow
+    '#7c3aed',  // Violet
+    '#16a34a',  // Green
+    '#ea580c',  // Orange
+    '#db2777',  // Pink
+    '#2563eb',  // Blue
+    '#65a30d',  // Lime
+    '#0d9488'   // Teal
+  ],
+  pathWidth: 3,             // pixels
+  ghostAlpha: 0.5           // opacity of ghost arms
+} as const;
+
 /**
  * Animation configuration
  */
 export const ANIMATION_CONFIG = {
-  playbackSpeed: 1.0,       // 1.0 = real-time
+  playbackSpeed: 1.0,       // 1.0 = real-time (default)
+  minPlaybackSpeed: 0.1,
+  maxPlaybackSpeed: 4.0,
+  playbackSpeedPresets: [0.1, 0.25, 0.5, 0.75, 1, 1.5, 2, 3, 4],
   interpolationSteps: 5     // frames to interpolate between keyframes
 } as const;
 
 /**
- * Total number of motions to complete
+ * Keyboard and gamepad teleoperation configuration
+ * Keys are KeyboardEvent.key values, compared in lower case
  */
-export const TOTAL_MOTIONS = 8;
+export const TELEOP_CONFIG = {
+  cartesianSpeed: 150,      // End effector jog speed, px/s
+  jointSpeed: 1.2,          // Joint jog speed (keys and full stick deflection), rad/s
+  fineSpeedScale: 0.25,     // Speed multiplier while Shift is held
+  gamepadDeadzone: 0.15,    // Stick deflection ignored around the centre
+  maxTickSeconds: 0.1,      // Longest time step integrated at once (e.g. after a hidden tab)
+  cartesianKeys: {
+    up: ['arrowup', 'w'],
+    down: ['arrowdown', 's'],
+    left: ['arrowleft', 'a'],
+    right: ['arrowright', 'd']
+  },
+  // One [increase, decrease] pair per joint, base to tip
+  jointKeys: [['q', 'a'], ['w', 's'], ['e', 'd'], ['r', 'f'], ['t', 'g'], ['y', 'h']],
+  modeToggleKey: 'm'
+} as const;
 
 /**
  * Fixed target position for consistent positioning across all prompts
@@ -124,44 +301,162 @@ export function generateRandomTarget(): Vector2D {
  * Pose Presets
  * Configure different starting and target positions for the robot arm
  * Each preset can have a different shoulder/base position
- * Switch between presets by changing ACTIVE_POSE_PRESET below
+ * The study protocol selects which preset each trial uses (see constants/protocols)
  */
 export const POSE_PRESETS: Record<string, PosePreset> = {
   'default': {
     name: 'default',
     shoulderPosition: { x: 450, y: 300 },  // Center of canvas
-    initialShoulderAngle: -(80 * Math.PI / 180),  // -80 degrees (upward)
-    initialElbowAngle: (160 * Math.PI / 180),     // 160 degrees
+    linkLengths: [...ROBOT_CONFIG.linkLengths],
+    initialJointAngles: [
+      -(80 * Math.PI / 180),  // -80 degrees (upward)
+      (160 * Math.PI / 180)   // 160 degrees
+    ],
+    jointLimits: [...ROBOT_CONFIG.jointLimits],
     targetPosition: { x: 720, y: 300 }  // To the right
   },
   'low-start': {
     name: 'low-start',
     shoulderPosition: { x: 450, y: 450 },  // Low
-    initialShoulderAngle: -(80 * Math.PI / 180),  // -80 degrees (upward)
-    initialElbowAngle: (160 * Math.PI / 180),      // 120 degrees
+    linkLengths: [...ROBOT_CONFIG.linkLengths],
+    initialJointAngles: [
+      -(80 * Math.PI / 180),  // -80 degrees (upward)
+      (160 * Math.PI / 180)   // 160 degrees
+    ],
+    jointLimits: [...ROBOT_CONFIG.jointLimits],
     targetPosition: { x: 700, y: 300 }  // Upper right from base
   },
   'vertical-reach': {
     name: 'vertical-reach',
     shoulderPosition: { x: 600, y: 400 },  // Right side, mid-low
-    initialShoulderAngle: (0 * Math.PI / 180),    // 0 degrees (horizontal right)
-    initialElbowAngle: (90 * Math.PI / 180),      // 90 degrees
+    linkLengths: [...ROBOT_CONFIG.linkLengths],
+    initialJointAngles: [
+      (0 * Math.PI / 180),    // 0 degrees (horizontal right)
+      (90 * Math.PI / 180)    // 90 degrees
+    ],
+    jointLimits: [...ROBOT_CONFIG.jointLimits],
     targetPosition: { x: 600, y: 150 }  // Directly above
+  },
+  'three-link': {
+    name: 'three-link',
+    shoulderPosition: { x: 450, y: 300 },  // Center of canvas
+    linkLengths: [110, 90, 80],            // Same 280px reach split over three links
+    initialJointAngles: [
+      -(80 * Math.PI / 180),  // -80 degrees (upward)
+      (120 * Math.PI / 180),  // 120 degrees
+      (60 * Math.PI / 180)    // 60 degrees
+    ],
+    jointLimits: [JOINT_LIMITS.shoulder, JOINT_LIMITS.elbow, JOINT_LIMITS.wrist],
+    targetPosition: { x: 720, y: 300 }  // To the right
+  },
+  'four-link': {
+    name: 'four-link',
+    shoulderPosition: { x: 450, y: 300 },  // Center of canvas
+    linkLengths: [85, 75, 65, 55],         // Same 280px reach split over four links
+    initialJointAngles: [
+      -(80 * Math.PI / 180),  // -80 degrees (upward)
+      (90 * Math.PI / 180),   // 90 degrees
+      (60 * Math.PI / 180),   // 60 degrees
+      (45 * Math.PI / 180)    // 45 degrees
+    ],
+    jointLimits: [JOINT_LIMITS.shoulder, JOINT_LIMITS.elbow, JOINT_LIMITS.wrist, JOINT_LIMITS.wrist],
+    targetPosition: { x: 720, y: 300 }  // To the right
+  },
+  'obstacles': {
+    name: 'obstacles',
+    shoulderPosition: { x: 450, y: 380 },  // Center, slightly low
+    linkLengths: [...ROBOT_CONFIG.linkLengths],
+    initialJointAngles: [
+      -(80 * Math.PI / 180),  // -80 degrees (upward)
+      (160 * Math.PI / 180)   // 160 degrees
+    ],
+    jointLimits: [...ROBOT_CONFIG.jointLimits],
+    targetPosition: { x: 630, y: 300 },  // Upper right, behind the post
+    obstacles: [
+      { shape: 'circle', center: { x: 565, y: 330 }, radius: 22 },           // Post on the direct path
+      { shape: 'rectangle', x: 520, y: 400, width: 120, height: 24 },        // Shelf below
+      { shape: 'polygon', points: [{ x: 560, y: 180 }, { x: 620, y: 150 }, { x: 610, y: 215 }] } // Wedge above
+    ]
+  },
+  'waypoints': {
+    name: 'waypoints',
+    shoulderPosition: { x: 450, y: 300 },  // Center of canvas
+    linkLengths: [...ROBOT_CONFIG.linkLengths],
+    initialJointAngles: [
+      -(80 * Math.PI / 180),  // -80 degrees (upward)
+      (160 * Math.PI / 180)   // 160 degrees
+    ],
+    jointLimits: [...ROBOT_CONFIG.jointLimits],
+    targetPosition: { x: 720, y: 300 },  // To the right
+    waypoints: [
+      { position: { x: 550, y: 180 } },              // A: upper left of the target
+      { position: { x: 640, y: 420 }, radius: 15 }   // B: below, smaller
+    ]
+  },
+  'moving-target': {
+    name: 'moving-target',
+    shoulderPosition: { x: 450, y: 300 },  // Center of canvas
+    linkLengths: [...ROBOT_CONFIG.linkLengths],
+    initialJointAngles: [
+      -(80 * Math.PI / 180),  // -80 degrees (upward)
+      (160 * Math.PI / 180)   // 160 degrees
+    ],
+    jointLimits: [...ROBOT_CONFIG.jointLimits],
+    targetPosition: { x: 660, y: 300 },  // To the right, where it oscillates
+    scene: {
+      oscillation: { amplitude: { x: 0, y: 90 }, periodMs: 4000 }  // Up and down every 4 seconds
+    }
+  },
+  'evasive-target': {
+    name: 'evasive-target',
+    shoulderPosition: { x: 450, y: 300 },  // Center of canvas
+    linkLengths: [...ROBOT_CONFIG.linkLengths],
+    initialJointAngles: [
+      -(80 * Math.PI / 180),  // -80 degrees (upward)
+      (160 * Math.PI / 180)   // 160 degrees
+    ],
+    jointLimits: [...ROBOT_CONFIG.jointLimits],
+    targetPosition: { x: 650, y: 250 },  // Upper right
+    scene: {
+      keyframes: [
+        { timeMs: 0, radius: 28 },      // Starts large...
+        { timeMs: 8000, radius: 16 }    // ...and shrinks over 8 seconds
+      ],
+      evade: { distance: 90, speed: 45 }  // Slowly drifts away from the approaching gripper
+    }
   }
 } as const;
 
 /**
- * Active pose preset
- * Change this value to switch between different pose configurations:
+ * Pose preset used before a session starts and for unknown preset names
+ * Available presets:
  * - 'default': Horizontal reach from upper position
  * - 'low-start': Upward reach from lower position
  * - 'vertical-reach': Vertical reach from horizontal position
+ * - 'three-link': Horizontal reach with a three-link arm
+ * - 'four-link': Horizontal reach with a four-link arm
+ * - 'obstacles': Reach around a post, between a shelf and a wedge
+ * - 'waypoints': Horizontal reach through two waypoints, in order
+ * - 'moving-target': Reach for a target oscillating up and down
+ * - 'evasive-target': Reach for a shrinking target that drifts away when approached
  */
-export const ACTIVE_POSE_PRESET: keyof typeof POSE_PRESETS = 'default';
+export const DEFAULT_POSE_PRESET: keyof typeof POSE_PRESETS = 'default';
+
+/**
+ * Get a pose preset configuration by name
+ */
+export function getPosePreset(name: string): PosePreset {
+  return POSE_PRESETS[name] ?? POSE_PRESETS[DEFAULT_POSE_PRESET];
+}
 
 /**
- * Get the active pose preset configuration
+ * Build the robot configuration for a pose preset in its initial pose
  */
-export function getActivePosePreset(): PosePreset {
-  return POSE_PRESETS[ACTIVE_POSE_PRESET];
+export function createRobotConfig(pose: PosePreset): RobotArmConfig {
+  return {
+    shoulderPosition: pose.shoulderPosition,
+    linkLengths: [...pose.linkLengths],
+    jointAngles: [...pose.initialJointAngles],
+    jointLimits: [...pose.jointLimits]
+  };
 }
@@ -0,0 +1,17 @@
+/**
+ * Bundled study protocols
+ * Select one with ?protocol=<name>, or pass a URL to a protocol JSON file instead
+ */
+
+import defaultProtocol from './default.json';
+import altMetaphorsProtocol from './alt-metaphors.json';
+
+export const BUNDLED_PROTOCOLS: Record<string, unknown> = {
+  'default': defaultProtocol,
+  'alt-metaphors': altMetaphorsProtocol
+};
+
+/**
+ * Protocol used when no ?protocol= parameter is given
+ */
+export const DEFAULT_PROTOCOL = 'default';
@@ -2,7 +2,7 @@
  * Global application context for state management
  */
 
-import { createContext, useContext, useState } from 'react';
+import { createContext, useContext, useState, useEffect } from 'react';
 import type { ReactNode } from 'react';
 import type {
   AppState,
@@ -10,20 +10,50 @@ import type {
   UserSession,
   MotionTrajectory,
   Vector2D,
-  RobotArmConfig
+  RobotArmConfig,
+  PosePreset,
+  StudyProtocol,
+  SessionSnapshot,
+  OverlayTrace,
+  PlaybackOptions,
+  TargetPose
 } from '../types';
-import { getRandomizedPromptOrder } from '../constants/prompts';
 import { generateSessionId } from '../utils/dataExport';
-import { ROBOT_CONFIG, getActivePosePreset } from '../constants/config';
+import { truncateWaypointHits } from '../utils/waypoints';
+import { getScenePose } from '../utils/scene';
+import { loadStudyProtocol, buildSessionPlan, getSequenceNumber, isReviewMode } from '../utils/protocol';
+import { loadSessionSnapshot, clearSessionSnapshot } from '../utils/sessionPersistence';
+import { useSessionPersistence } from '../hooks/useSessionPersistence';
+import { useUploadQueue } from '../hooks/useUploadQueue';
+import {
+  DEFAULT_POSE_PRESET,
+  ANIMATION_CONFIG,
+  MOUSE_SENSITIVITY_CONFIG,
+  TARGET_CONFIG,
+  getPosePreset,
+  createRobotConfig
+} from '../constants/config';
 
 interface AppContextType {
   // Application state
   appState: AppState;
   setAppState: (state: AppState) => void;
 
+  // Study protocol (null while loading or if it failed to load)
+  protocol: StudyProtocol | null;
+  protocolError: string | null;
+
   // User session
   userSession: UserSession | null;
-  initializeSession: (userId: string, promptSet: 'laban' | 'metaphor') => void;
+  initializeSession: (userId: string) => void;
+
+  // Session saved by an earlier visit (null if none)
+  savedSession: SessionSnapshot | null;
+  resumeSession: () => void;
+  discardSavedSession: () => void;
+
+  // Pose preset of the current trial
+  currentPosePreset: PosePreset;
 
   // Recording state
   recordingState: RecordingState;
@@ -37,18 +67,29 @@ interface AppContextType {
   robotConfig: RobotArmConfig;
   setRobotConfig: (config: RobotArmConfig | ((prev: RobotArmConfig) => RobotArmConfig)) => void;
 
-  // Target position
+  // Target position and size (both change over time in moving-target scenes)
   targetPosition: Vector2D | null;
+  targetRadius: number;
   setTargetPosition: (position: Vector2D) => void;
+  setTargetPose: (pose: TargetPose) => void;
+
+  // Playback position in frames (position to start from, or current position during playback)
+  // Fractional between two recorded frames, where the shown pose is interpolated
+  playbackPosition: number;
+  setPlaybackPosition: (position: number) => void;
 
-  // Playback position (frame index to start from, or current frame during playback)
+  // Recorded frame at or before the playback position
   playbackFrame: number;
   setPlaybackFrame: (frame: number) => void;
 
+  // Playback speed, looping, direction and A–B range
+  playbackOptions: PlaybackOptions;
+  setPlaybackOptions: (options: PlaybackOptions | ((prev: PlaybackOptions) => PlaybackOptions)) => void;
+
   // Actions
   startRecording: () => void;
   stopRecording: () => void;
-  startPlayback: (fromFrame?: number) => void;
+  startPlayback: (fromPosition?: number) => void;
   stopPlayback: () => void;
   resetCurrentMotion: () => void;
   completeCurrentMotion: () => void;
@@ -64,52 +105,150 @@ interface AppContextType {
 
   // Redraw from point
   redrawFromFrame: (frameIndex: number) => void;
+
+  // Comparison overlay drawn under the current trajectory
+  overlayTraces: OverlayTrace[];
+  setOverlayTraces: (traces: OverlayTrace[] | ((prev: OverlayTrace[]) => OverlayTrace[])) => void;
+  showGhostArms: boolean;
+  setShowGhostArms: (show: boolean) => void;
+
+  // Scale of pointer movement applied to the end effector while dragging
+  mouseSensitivity: number;
+  setMouseSensitivity: (sensitivity: number) => void;
 }
 
 const AppContext = createContext<AppContextType | undefined>(undefined);
 
 export function AppProvider({ children }: { children: ReactNode }) {
-  const [appState, setAppState] = useState<AppState>('splash');
+  const [appState, setAppState] = useState<AppState>(() => isReviewMode() ? 'review' : 'splash');
+  const [protocol, setProtocol] = useState<StudyProtocol | null>(null);
+  const [protocolError, setProtocolError] = useState<string | null>(null);
   const [userSession, setUserSession] = useState<UserSession | null>(null);
-  const [recordingState, setRecordingState] = useState<RecordingState>('idle');
+  // The review dashboard only replays motions, so it starts paused ('paused' blocks dragging)
+  const [recordingState, setRecordingState] = useState<RecordingState>(() => isReviewMode() ? 'paused' : 'idle');
   const [currentTrajectory, setCurrentTrajectory] = useState<MotionTrajectory | null>(null);
   const [targetPosition, setTargetPosition] = useState<Vector2D | null>(null);
+  const [targetRadius, setTargetRadius] = useState<number>(TARGET_CONFIG.radius);
   const [undoHistory, setUndoHistory] = useState<MotionTrajectory[]>([]);
   const [redoHistory, setRedoHistory] = useState<MotionTrajectory[]>([]);
-  const [playbackFrame, setPlaybackFrame] = useState(0);
-
-  const [robotConfig, setRobotConfig] = useState<RobotArmConfig>(() => {
-    const activePose = getActivePosePreset();
-    return {
-      shoulderPosition: activePose.shoulderPosition,
-      upperArmLength: ROBOT_CONFIG.upperArmLength,
-      lowerArmLength: ROBOT_CONFIG.lowerArmLength,
-      shoulderAngle: activePose.initialShoulderAngle,
-      elbowAngle: activePose.initialElbowAngle
-    };
+  const [playbackPosition, setPlaybackPosition] = useState(0);
+  const [playbackOptions, setPlaybackOptions] = useState<PlaybackOptions>({
+    speed: ANIMATION_CONFIG.playbackSpeed,
+    loop: false,
+    reverse: false,
+    loopRange: null,
+    simulateController: false
   });
+  const [savedSession, setSavedSession] = useState<SessionSnapshot | null>(null);
+  const [overlayTraces, setOverlayTraces] = useState<OverlayTrace[]>([]);
+  const [showGhostArms, setShowGhostArms] = useState(true);
+  const [mouseSensitivity, setMouseSensitivity] = useState<number>(MOUSE_SENSITIVITY_CONFIG.default);
+
+  // Frame-based callers (redraw, A–B marks, resets) work on whole frames
+  const playbackFrame = Math.floor(playbackPosition);
+  const setPlaybackFrame = setPlaybackPosition;
+
+  const [robotConfig, setRobotConfig] = useState<RobotArmConfig>(() => createRobotConfig(getPosePreset(DEFAULT_POSE_PRESET)));
+
+  // Load the study protocol once at startup
+  useEffect(() => {
+    loadStudyProtocol()
+      .then(setProtocol)
+      .catch((error: Error) => {
+        console.error('Error loading study protocol:', error);
+        setProtocolError(error.message);
+      });
+  }, []);
+
+  // Look for a session interrupted by a reload or crash
+  useEffect(() => {
+    loadSessionSnapshot()
+      // A completed session (saved before they were cleared on completion) is not resumable
+      .then(snapshot => setSavedSession(snapshot?.appState === 'completed' ? null : snapshot))
+      .catch((error: Error) => {
+        console.error('Error loading saved session:', error);
+      });
+  }, []);
+
+  // Persist the session as it changes
+  useSessionPersistence({
+    appState,
+    userSession,
+    currentTrajectory,
+    undoHistory,
+    redoHistory,
+    robotConfig
+  });
+
+  // Send sessions left in the upload queue by an earlier visit
+  useUploadQueue();
+
+  const currentPosePreset = getPosePreset(
+    userSession?.posePresetOrder[userSession.currentPromptIndex] ?? DEFAULT_POSE_PRESET
+  );
+
+  const setTargetPose = (pose: TargetPose) => {
+    setTargetPosition(pose.position);
+    setTargetRadius(pose.radius);
+  };
+
+  const initializeSession = (userId: string) => {
+    if (!protocol) return;
 
-  const initializeSession = (userId: string, promptSet: 'laban' | 'metaphor') => {
     const sessionId = generateSessionId();
-    const promptOrder = getRandomizedPromptOrder();
-    const activePose = getActivePosePreset();
+    const plan = buildSessionPlan(protocol, userId, getSequenceNumber());
+    const firstPose = getPosePreset(plan.posePresetOrder[0]);
 
     setUserSession({
       userId,
       sessionId,
-      promptSet,
-      promptOrder,
+      protocolName: protocol.name,
+      promptSet: plan.promptSet,
+      promptOrder: plan.promptOrder,
+      posePresetOrder: plan.posePresetOrder,
+      assignment: plan.assignment,
       completedMotions: [],
       currentPromptIndex: 0,
-      startTime: Date.now(),
-      activePosePreset: activePose.name
+      startTime: Date.now()
     });
 
-    // Set initial target position from preset
-    setTargetPosition(activePose.targetPosition);
+    // Set initial arm and target position from the first trial's preset
+    setRobotConfig(createRobotConfig(firstPose));
+    setTargetPose(getScenePose(firstPose.scene, firstPose.targetPosition, 0));
+
+    // A new session replaces any saved one
+    setSavedSession(null);
+  };
+
+  const resumeSession = () => {
+    if (!savedSession) return;
+
+    const pose = getPosePreset(
+      savedSession.userSession.posePresetOrder[savedSession.userSession.currentPromptIndex] ?? DEFAULT_POSE_PRESET
+    );
+
+    setUserSession(savedSession.userSession);
+    setCurrentTrajectory(savedSession.currentTrajectory);
+    setUndoHistory(savedSession.undoHistory);
+    setRedoHistory(savedSession.redoHistory);
+    setRobotConfig(savedSession.robotConfig);
+    setTargetPose(getScenePose(pose.scene, pose.targetPosition, 0));
+    setPlaybackFrame(0);
+    setRecordingState('idle'); // A recording in progress ends where it was last saved
+    setAppState(savedSession.appState);
+    setSavedSession(null);
+  };
+
+  const discardSavedSession = () => {
+    setSavedSession(null);
+    clearSessionSnapshot().catch((error: Error) => {
+      console.error('Error discarding saved session:', error);
+    });
   };
 
   const startRecording = () => {
+    // The motion keeps the sensitivity it is drawn at, even if the slider moves before Next
+    setCurrentTrajectory(prev => prev && { ...prev, mouseSensitivity });
     setRecordingState('recording');
     setRedoHistory([]); // Clear redo history when starting new recording
   };
@@ -118,9 +257,9 @@ export function AppProvider({ children }: { children: ReactNode }) {
     setRecordingState('idle');
   };
 
-  const startPlayback = (fromFrame?: number) => {
-    if (fromFrame !== undefined) {
-      setPlaybackFrame(fromFrame);
+  const startPlayback = (fromPosition?: number) => {
+    if (fromPosition !== undefined) {
+      setPlaybackPosition(fromPosition);
     }
     setRecordingState('playing');
   };
@@ -130,15 +269,13 @@ export function AppProvider({ children }: { children: ReactNode }) {
     setRecordingState('paused');
   };
 
+  // An A–B range only makes sense for the trajectory it was set on
+  const clearLoopRange = () => {
+    setPlaybackOptions(prev => ({ ...prev, loopRange: null }));
+  };
+
   const resetRobotPosition = () => {
-    const activePose = getActivePosePreset();
-    setRobotConfig({
-      shoulderPosition: activePose.shoulderPosition,
-      upperArmLength: ROBOT_CONFIG.upperArmLength,
-      lowerArmLength: ROBOT_CONFIG.lowerArmLength,
-      shoulderAngle: activePose.initialShoulderAngle,
-      elbowAngle: activePose.initialElbowAngle
-    });
+    setRobotConfig(createRobotConfig(currentPosePreset));
   };
 
   const resetCurrentMotion = () => {
@@ -147,6 +284,7 @@ export function AppProvider({ children }: { children: ReactNode }) {
       setUndoHistory(prev => [...prev, currentTrajectory]);
       setCurrentTrajectory(null);
       setRecordingState('idle');
+      clearLoopRange();
       resetRobotPosition();
     }
   };
@@ -156,7 +294,7 @@ export function AppProvider({ children }: { children: ReactNode }) {
       return;
     }
 
-    // Add to completed motions
+    // Add to completed motions (it carries the sensitivity recorded when recording started)
     setUserSession(prev => {
       if (!prev) return prev;
       return {
@@ -170,6 +308,7 @@ export function AppProvider({ children }: { children: ReactNode }) {
     setUndoHistory([]);
     setRedoHistory([]);
     setRecordingState('idle');
+    clearLoopRange();
     resetRobotPosition();
 
     // Move to next prompt or completion
@@ -230,24 +369,32 @@ export function AppProvider({ children }: { children: ReactNode }) {
     // Save current trajectory to undo history
     setUndoHistory(prev => [...prev, currentTrajectory]);
 
-    // Truncate trajectory to the selected frame
+    // Truncate trajectory to the selected frame (waypoints hit later must be hit again)
     const truncatedTrajectory: MotionTrajectory = {
       ...currentTrajectory,
       frames: currentTrajectory.frames.slice(0, frameIndex + 1),
       completed: false, // No longer completed since we're redrawing
-      totalTimeMs: currentTrajectory.frames[frameIndex].timestamp
+      totalTimeMs: currentTrajectory.frames[frameIndex].timestamp,
+      waypointHits: truncateWaypointHits(currentTrajectory, currentTrajectory.frames[frameIndex].timestamp)
     };
 
     setCurrentTrajectory(truncatedTrajectory);
     setRecordingState('idle'); // Allow user to start recording from this point
+    clearLoopRange();
     setRedoHistory([]); // Clear redo history when making a new change
   };
 
   const value: AppContextType = {
     appState,
     setAppState,
+    protocol,
+    protocolError,
     userSession,
     initializeSession,
+    savedSession,
+    resumeSession,
+    discardSavedSession,
+    currentPosePreset,
     recordingState,
     setRecordingState,
     currentTrajectory,
@@ -255,13 +402,19 @@ export function AppProvider({ children }: { children: ReactNode }) {
     robotConfig,
     setRobotConfig,
     targetPosition,
+    targetRadius,
     setTargetPosition,
+    setTargetPose,
     startRecording,
     stopRecording,
     startPlayback,
     stopPlayback,
+    playbackPosition,
+    setPlaybackPosition,
     playbackFrame,
     setPlaybackFrame,
+    playbackOptions,
+    setPlaybackOptions,
     resetCurrentMotion,
     completeCurrentMotion,
     nextPrompt,
@@ -271,7 +424,13 @@ export function AppProvider({ children }: { children: ReactNode }) {
     redo,
     canUndo: undoHistory.length > 0,
     canRedo: redoHistory.length > 0,
-    redrawFromFrame
+    redrawFromFrame,
+    overlayTraces,
+    setOverlayTraces,
+    showGhostArms,
+    setShowGhostArms,
+    mouseSensitivity,
+    setMouseSensitivity
   };
 
   return <AppContext.Provider value={value}>{children}</AppContext.Provider>;
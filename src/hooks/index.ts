@@ -4,7 +4,12 @@
  */
 
 export { useMouseTracking } from './useMouseTracking';
+export { useTeleoperation } from './useTeleoperation';
 export { useRobotControl } from './useRobotControl';
 export { useRecording } from './useRecording';
 export { usePlayback } from './usePlayback';
+export { useControllerSimulation } from './useControllerSimulation';
 export { useTargetDetection } from './useTargetDetection';
+export { useSessionPersistence } from './useSessionPersistence';
+export { useUploadQueue } from './useUploadQueue';
+export { useSessionUpload } from './useSessionUpload';
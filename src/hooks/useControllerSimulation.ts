@@ -0,0 +1,113 @@
+/**
+ * useControllerSimulation hook
+ * Executes the replayed trajectory through simulated joint controllers
+ * Playback drives the commanded pose; this hook runs the physics on its own interval timer,
+ * separate from the animation frames that render, catching the simulation up to the
+ * playback time in fixed steps. The arm always shows the execution that started at rest on
+ * the first frame: states along it are saved every CONTROLLER_CONFIG.checkpointMs, so going
+ * back in time (reverse playback, scrubbing, a loop wrapping around) or seeking ahead steps
+ * forward from the nearest earlier one.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import type { RobotArmConfig, MotionTrajectory, RecordingState, ControllerState, TrackingError } from '../types';
+import { getTimeAtFramePosition } from '../utils/playback';
+import {
+  getControllerParameters,
+  createControllerState,
+  advanceController,
+  getCommandedState,
+  getTrackingError
+} from '../utils/controller';
+import { CONTROLLER_CONFIG } from '../constants/config';
+
+interface UseControllerSimulationProps {
+  enabled: boolean;
+  recordingState: RecordingState;
+  currentTrajectory: MotionTrajectory | null;
+  robotConfig: RobotArmConfig;
+  playbackPosition: number;
+}
+
+interface ControllerExecution {
+  jointAngles: number[];        // Executed joint angles
+  trackingError: TrackingError; // Against the commanded pose at the simulated time
+}
+
+export function useControllerSimulation({
+  enabled,
+  recordingState,
+  currentTrajectory,
+  robotConfig,
+  playbackPosition
+}: UseControllerSimulationProps): ControllerExecution | null {
+  // Tagged with the trajectory it was simulated for, so a stale result is never shown
+  const [execution, setExecution] = useState<(ControllerExecution & { trajectory: MotionTrajectory }) | null>(null);
+  const stateRef = useRef<ControllerState | null>(null);
+  const robotConfigRef = useRef(robotConfig);
+  const playbackPositionRef = useRef(playbackPosition);
+
+  // Keep refs in sync
+  useEffect(() => {
+    robotConfigRef.current = robotConfig;
+    playbackPositionRef.current = playbackPosition;
+  }, [robotConfig, playbackPosition]);
+
+  const isReplaying = recordingState === 'playing' || recordingState === 'paused';
+  const isActive = enabled && isReplaying && !!currentTrajectory && currentTrajectory.frames.length > 1;
+
+  useEffect(() => {
+    if (!isActive || !currentTrajectory) return;
+
+    const frames = currentTrajectory.frames;
+    const params = getControllerParameters(robotConfigRef.current.linkLengths);
+    const checkpoints = [createControllerState(frames, frames[0].timestamp)];
+    stateRef.current = null;
+
+    // Latest saved state at or before a time, running the execution further as needed
+    const getCheckpoint = (timeMs: number): ControllerState => {
+      const { linkLengths, jointLimits } = robotConfigRef.current;
+      let last = checkpoints[checkpoints.length - 1];
+      while (last.timeMs + CONTROLLER_CONFIG.checkpointMs <= timeMs) {
+        last = advanceController(last, frames, last.timeMs + CONTROLLER_CONFIG.checkpointMs, linkLengths, jointLimits, params);
+        checkpoints.push(last);
+      }
+
+      let index = Math.min(
+        checkpoints.length - 1,
+        Math.max(0, Math.floor((timeMs - frames[0].timestamp) / CONTROLLER_CONFIG.checkpointMs))
+      );
+      while (index > 0 && checkpoints[index].timeMs > timeMs) index--;
+      return checkpoints[index];
+    };
+
+    const tick = () => {
+      const config = robotConfigRef.current;
+      const targetMs = getTimeAtFramePosition(frames, playbackPositionRef.current);
+      const state = stateRef.current;
+
+      // Carry on from the current state when playing forwards, else from a checkpoint
+      const checkpoint = getCheckpoint(targetMs);
+      const start = state && state.timeMs <= targetMs && state.timeMs >= checkpoint.timeMs ? state : checkpoint;
+      const next = advanceController(start, frames, targetMs, config.linkLengths, config.jointLimits, params);
+
+      // Paused, or less than a step since the last tick: nothing new to show
+      if (next.timeMs === state?.timeMs) return;
+      stateRef.current = next;
+
+      const { timeMs, jointAngles } = next;
+      const commanded = getCommandedState(frames, timeMs, params.timestepMs);
+      setExecution({
+        trajectory: currentTrajectory,
+        jointAngles,
+        trackingError: getTrackingError(config, commanded.jointAngles, jointAngles)
+      });
+    };
+
+    const interval = setInterval(tick, CONTROLLER_CONFIG.tickMs);
+    return () => clearInterval(interval);
+  }, [isActive, currentTrajectory]);
+
+  if (!isActive || !execution || execution.trajectory !== currentTrajectory) return null;
+  return execution;
+}
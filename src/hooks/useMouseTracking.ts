@@ -1,11 +1,17 @@
 /**
  * useMouseTracking hook
- * Manages mouse position, following state, and mouse event handlers
+ * Manages pointer position, following state, and pointer event handlers
+ * Mouse, pen and touch all arrive as Pointer Events. The grabbing pointer is captured so
+ * drags continue outside the canvas, and coalesced events give every sample the browser
+ * merged into one move. Pointer type, pressure, tilt and buttons feed the raw input stream.
+ * Grabbing the gripper drags the end effector; grabbing a link or an elbow turns a single
+ * joint instead.
  */
 
 import { useState, useCallback, useRef, useEffect } from 'react';
-import type { Vector2D, RobotArmConfig } from '../types';
-import { forwardKinematics, distance } from '../utils/kinematics';
+import type { Vector2D, RobotArmConfig, PointerDetails, ArmControl } from '../types';
+import { forwardKinematics, distance, distanceToSegment } from '../utils/kinematics';
+import { getSegmentThickness, ELBOW_JOINT_RADIUS } from '../utils/canvasRendering';
 import { CANVAS_CONFIG } from '../constants/config';
 
 interface UseMouseTrackingProps {
@@ -15,79 +21,161 @@ interface UseMouseTrackingProps {
 
 interface UseMouseTrackingReturn {
   mousePosition: Vector2D | null;
+  pointerPath: Vector2D[];
+  pointerDetails: PointerDetails;
+  control: ArmControl;          // Part of the arm the pointer grabbed
   isFollowing: boolean;
   setIsFollowing: (following: boolean) => void;
-  handleMouseMove: (e: React.MouseEvent<HTMLCanvasElement>) => void;
-  handleMouseDown: (e: React.MouseEvent<HTMLCanvasElement>) => void;
-  handleMouseLeave: () => void;
+  handlePointerMove: (e: React.PointerEvent<HTMLCanvasElement>) => void;
+  handlePointerDown: (e: React.PointerEvent<HTMLCanvasElement>) => void;
+  handlePointerUp: (e: React.PointerEvent<HTMLCanvasElement>) => void;
+  handlePointerLeave: () => void;
+}
+
+const NO_POINTER: PointerDetails = { pointerType: '', pressure: 0, tiltX: 0, tiltY: 0, buttons: 0 };
+const END_EFFECTOR_CONTROL: ArmControl = { mode: 'end-effector', joint: null };
+
+// Extra pixels around a link that still grab it
+const LINK_GRAB_MARGIN = 4;
+
+/**
+ * Pointer details of a pointer event
+ */
+function getPointerDetails(e: PointerEvent): PointerDetails {
+  return {
+    pointerType: e.pointerType,
+    pressure: e.pressure,
+    tiltX: e.tiltX,
+    tiltY: e.tiltY,
+    buttons: e.buttons
+  };
+}
+
+/**
+ * Part of the arm under a point, as the control it gives
+ * The gripper drags the end effector. An elbow turns the joint before it, moving the rest of
+ * the arm rigidly; a link turns the joint at its base. Returns null when nothing is hit.
+ */
+function hitTestArm(point: Vector2D, config: RobotArmConfig): ArmControl | null {
+  const { jointPositions, endEffectorPosition } = forwardKinematics(config);
+
+  // Radius 14px from drawGripper, slightly larger for easier clicking
+  if (distance(point, endEffectorPosition) <= 20) {
+    return END_EFFECTOR_CONTROL;
+  }
+
+  // Elbows are drawn over the ends of the links, so they are tested first
+  for (let joint = 1; joint < jointPositions.length; joint++) {
+    if (distance(point, jointPositions[joint]) <= ELBOW_JOINT_RADIUS) {
+      return { mode: 'joint', joint: joint - 1 };
+    }
+  }
+
+  const points = [...jointPositions, endEffectorPosition];
+  for (let link = 0; link < jointPositions.length; link++) {
+    const reach = getSegmentThickness(link) / 2 + LINK_GRAB_MARGIN;
+    if (distanceToSegment(point, points[link], points[link + 1]) <= reach) {
+      return { mode: 'joint', joint: link };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Map client coordinates to the canvas logical coordinate space
+ * Accounts for any CSS scaling between the display size and logical size
+ */
+function toCanvasPosition(canvas: HTMLCanvasElement, clientX: number, clientY: number): Vector2D {
+  const rect = canvas.getBoundingClientRect();
+  const scaleX = CANVAS_CONFIG.width / rect.width;
+  const scaleY = CANVAS_CONFIG.height / rect.height;
+
+  return {
+    x: (clientX - rect.left) * scaleX,
+    y: (clientY - rect.top) * scaleY
+  };
 }
 
 export function useMouseTracking({
   canvasRef,
   robotConfig
 }: UseMouseTrackingProps): UseMouseTrackingReturn {
-  const [mousePosition, setMousePosition] = useState<Vector2D | null>(null);
+  // Samples of the latest move, oldest first; the last one is the current position
+  const [pointerPath, setPointerPath] = useState<Vector2D[]>([]);
+  const [pointerDetails, setPointerDetails] = useState<PointerDetails>(NO_POINTER);
+  const [control, setControl] = useState<ArmControl>(END_EFFECTOR_CONTROL);
   const [isFollowing, setIsFollowing] = useState(false);
   const robotConfigRef = useRef(robotConfig);
 
+  const mousePosition = pointerPath.length > 0 ? pointerPath[pointerPath.length - 1] : null;
+
   // Keep ref in sync
   useEffect(() => {
     robotConfigRef.current = robotConfig;
   }, [robotConfig]);
 
-  const handleMouseMove = useCallback((e: React.MouseEvent<HTMLCanvasElement>) => {
+  const handlePointerMove = useCallback((e: React.PointerEvent<HTMLCanvasElement>) => {
     const canvas = canvasRef.current;
     if (!canvas) return;
 
-    const rect = canvas.getBoundingClientRect();
-    // Map mouse coordinates to canvas logical coordinate space
-    // Account for any CSS scaling between the display size and logical size
-    const scaleX = CANVAS_CONFIG.width / rect.width;
-    const scaleY = CANVAS_CONFIG.height / rect.height;
+    // Browsers merge fast moves into one event per frame; replay every merged sample
+    const coalesced = e.nativeEvent.getCoalescedEvents?.() ?? [];
+    const samples = coalesced.length > 0 ? coalesced : [e.nativeEvent];
 
-    setMousePosition({
-      x: (e.clientX - rect.left) * scaleX,
-      y: (e.clientY - rect.top) * scaleY
-    });
-  }, []);
+    setPointerPath(samples.map(sample => toCanvasPosition(canvas, sample.clientX, sample.clientY)));
+    setPointerDetails(getPointerDetails(samples[samples.length - 1]));
+  }, [canvasRef]);
 
-  const handleMouseDown = useCallback((e: React.MouseEvent<HTMLCanvasElement>) => {
+  const handlePointerDown = useCallback((e: React.PointerEvent<HTMLCanvasElement>) => {
     const canvas = canvasRef.current;
     if (!canvas) return;
 
-    const rect = canvas.getBoundingClientRect();
-    // Map mouse coordinates to canvas logical coordinate space
-    const scaleX = CANVAS_CONFIG.width / rect.width;
-    const scaleY = CANVAS_CONFIG.height / rect.height;
-
-    const clickPos: Vector2D = {
-      x: (e.clientX - rect.left) * scaleX,
-      y: (e.clientY - rect.top) * scaleY
-    };
-
-    const { endEffectorPosition } = forwardKinematics(robotConfigRef.current);
-
-    // Check if click is within the end effector (radius 14px from drawGripper)
-    const clickDistance = distance(clickPos, endEffectorPosition);
-    if (clickDistance <= 20) { // Slightly larger hitbox for easier clicking
-      // CRITICAL: Use actual click position, not end effector position
-      // This ensures immediate response to where the user actually clicked
-      // The IK solver will choose the configuration that minimizes joint movement
-      setMousePosition(clickPos);
+    const clickPos = toCanvasPosition(canvas, e.clientX, e.clientY);
+    setPointerDetails(getPointerDetails(e.nativeEvent));
+
+    const grabbed = hitTestArm(clickPos, robotConfigRef.current);
+    if (grabbed) {
+      // The click position anchors the drag: useRobotControl moves the grabbed part by the
+      // pointer's movement from here, keeping the offset between the two
+      setPointerPath([clickPos]);
+      setControl(grabbed);
       setIsFollowing(true);
+
+      // Keep receiving this pointer's events while it is dragged outside the canvas
+      canvas.setPointerCapture(e.pointerId);
     }
-  }, []);
+  }, [canvasRef]);
+
+  const handlePointerUp = useCallback((e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = canvasRef.current;
+    if (canvas?.hasPointerCapture(e.pointerId)) {
+      canvas.releasePointerCapture(e.pointerId);
+    }
+
+    setPointerDetails(getPointerDetails(e.nativeEvent));
+
+    // Touch and most pens have no position once lifted
+    if (e.pointerType !== 'mouse') {
+      setPointerPath([]);
+    }
+  }, [canvasRef]);
 
-  const handleMouseLeave = useCallback(() => {
-    setMousePosition(null);
+  const handlePointerLeave = useCallback(() => {
+    setPointerPath([]);
+    setPointerDetails(prev => ({ ...prev, pressure: 0, buttons: 0 }));
   }, []);
 
   return {
     mousePosition,
+    pointerPath,
+    pointerDetails,
+    control,
     isFollowing,
     setIsFollowing,
-    handleMouseMove,
-    handleMouseDown,
-    handleMouseLeave
+    handlePointerMove,
+    handlePointerDown,
+    handlePointerUp,
+    handlePointerLeave
   };
 }
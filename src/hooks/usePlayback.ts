@@ -1,10 +1,20 @@
 /**
  * usePlayback hook
  * Manages playback of recorded motion frames with accurate timing
+ * A playback clock in recording time advances by wall-clock time × speed each
+ * animation frame (backwards in reverse), so speed and direction can change mid-play.
+ * The pose is interpolated between recorded frames on every tick.
  */
 
 import { useEffect, useRef } from 'react';
-import type { RobotArmConfig, MotionTrajectory, RecordingState } from '../types';
+import type { RobotArmConfig, MotionTrajectory, RecordingState, PlaybackOptions } from '../types';
+import { clampJointAngles } from '../utils/kinematics';
+import {
+  advancePlaybackTime,
+  getFramePositionAtTime,
+  getTimeAtFramePosition,
+  interpolateJointAngles
+} from '../utils/playback';
 
 interface UsePlaybackProps {
   recordingState: RecordingState;
@@ -12,8 +22,9 @@ interface UsePlaybackProps {
   robotConfig: RobotArmConfig;
   setRobotConfig: (config: RobotArmConfig | ((prev: RobotArmConfig) => RobotArmConfig)) => void;
   stopPlayback: () => void;
-  playbackFrame: number;
-  setPlaybackFrame: (frame: number) => void;
+  playbackPosition: number;
+  setPlaybackPosition: (position: number) => void;
+  playbackOptions: PlaybackOptions;
 }
 
 export function usePlayback({
@@ -21,30 +32,37 @@ export function usePlayback({
   currentTrajectory,
   setRobotConfig,
   stopPlayback,
-  playbackFrame,
-  setPlaybackFrame
+  playbackPosition,
+  setPlaybackPosition,
+  playbackOptions
 }: UsePlaybackProps) {
-  const playbackStartTimeRef = useRef<number>(0);
-  const startFrameTimeRef = useRef<number>(0);
+  const playbackTimeRef = useRef<number>(0);
+  const lastTickRef = useRef<number>(0);
   const animationFrameRef = useRef<number | undefined>(undefined);
   const currentTrajectoryRef = useRef(currentTrajectory);
   const setRobotConfigRef = useRef(setRobotConfig);
   const stopPlaybackRef = useRef(stopPlayback);
-  const setPlaybackFrameRef = useRef(setPlaybackFrame);
+  const setPlaybackPositionRef = useRef(setPlaybackPosition);
+  const playbackOptionsRef = useRef(playbackOptions);
   const wasPlayingRef = useRef(false);
-  const startingFrameRef = useRef(0);
-  const lastFrameIndexRef = useRef(-1);
+  const startingPositionRef = useRef(0);
+  const lastPositionRef = useRef(-1);
 
   // Keep refs in sync - update synchronously during render for immediate access
   currentTrajectoryRef.current = currentTrajectory;
   setRobotConfigRef.current = setRobotConfig;
   stopPlaybackRef.current = stopPlayback;
-  setPlaybackFrameRef.current = setPlaybackFrame;
+  setPlaybackPositionRef.current = setPlaybackPosition;
 
-  // Capture starting frame when transitioning TO playing state
-  // This runs before the main effect, ensuring we have the correct starting frame
+  // Options are read on the next animation frame, so syncing after render is soon enough
+  useEffect(() => {
+    playbackOptionsRef.current = playbackOptions;
+  }, [playbackOptions]);
+
+  // Capture starting position when transitioning TO playing state
+  // This runs before the main effect, ensuring we have the correct starting position
   if (recordingState === 'playing' && !wasPlayingRef.current) {
-    startingFrameRef.current = playbackFrame;
+    startingPositionRef.current = playbackPosition;
   }
   wasPlayingRef.current = recordingState === 'playing';
 
@@ -57,52 +75,46 @@ export function usePlayback({
     }
 
     if (recordingState === 'playing' && currentTrajectory && currentTrajectory.frames.length > 0) {
-      // Use the starting frame captured during render
-      const startFrame = Math.min(startingFrameRef.current, currentTrajectory.frames.length - 1);
-      startFrameTimeRef.current = currentTrajectory.frames[startFrame]?.timestamp || 0;
-      playbackStartTimeRef.current = performance.now();
-      lastFrameIndexRef.current = startFrame;
+      // Use the starting position captured during render
+      playbackTimeRef.current = getTimeAtFramePosition(currentTrajectory.frames, startingPositionRef.current);
+      lastTickRef.current = performance.now();
+      lastPositionRef.current = -1;
 
       const animate = (currentTime: number) => {
         const trajectory = currentTrajectoryRef.current;
         if (!trajectory || trajectory.frames.length === 0) return;
 
-        // Calculate elapsed time since playback started, offset by starting frame time
-        const elapsedTime = (currentTime - playbackStartTimeRef.current) + startFrameTimeRef.current;
-
-        // Binary search to find the frame that corresponds to this time
-        let left = 0;
-        let right = trajectory.frames.length - 1;
-        let frameIndex = 0;
-
-        while (left <= right) {
-          const mid = Math.floor((left + right) / 2);
-          if (trajectory.frames[mid].timestamp <= elapsedTime) {
-            frameIndex = mid;
-            left = mid + 1;
-          } else {
-            right = mid - 1;
-          }
-        }
-
-        // Only update state if the frame actually changed
-        if (frameIndex !== lastFrameIndexRef.current) {
-          lastFrameIndexRef.current = frameIndex;
-          const targetFrame = trajectory.frames[frameIndex];
-
-          // Update the playback frame for the timeline to show
-          setPlaybackFrameRef.current(frameIndex);
-
-          // Update robot config to match this frame
+        // Advance the playback clock by the elapsed wall-clock time, scaled by speed
+        const deltaMs = Math.max(0, currentTime - lastTickRef.current);
+        lastTickRef.current = currentTime;
+        const { time, finished } = advancePlaybackTime(
+          trajectory.frames,
+          playbackTimeRef.current,
+          deltaMs,
+          playbackOptionsRef.current
+        );
+        playbackTimeRef.current = time;
+
+        // Position between the recorded frames that corresponds to this time
+        const position = getFramePositionAtTime(trajectory.frames, time);
+
+        // Only update state if the position actually changed
+        if (position !== lastPositionRef.current) {
+          lastPositionRef.current = position;
+          const jointAngles = interpolateJointAngles(trajectory.frames, position);
+
+          // Update the playback position for the timeline to show
+          setPlaybackPositionRef.current(position);
+
+          // Update robot config to the interpolated pose (within the joint limits)
           setRobotConfigRef.current((prevConfig) => ({
             ...prevConfig,
-            shoulderAngle: targetFrame.shoulderAngle,
-            elbowAngle: targetFrame.elbowAngle
+            jointAngles: clampJointAngles(jointAngles, prevConfig.jointLimits)
           }));
         }
 
-        // If we've reached the end, stop playback
-        if (frameIndex >= trajectory.frames.length - 1) {
+        // If we've reached the end of the range (and are not looping), stop playback
+        if (finished) {
           stopPlaybackRef.current();
           return;
         }
@@ -2,38 +2,90 @@
  * useRecording hook
  * Manages recording state and frame capture
  * Uses requestAnimationFrame for optimal recording at display refresh rate
+ * The loop is also the scene clock: moving targets advance on the same ticks and time base
+ * as the frames, and each frame records where the target was. A frame is recorded whenever
+ * the arm or the target moves, so the target track has no gaps while the participant holds
+ * still.
  */
 
 import { useEffect, useRef } from 'react';
-import type { RobotArmConfig, MotionFrame, MotionTrajectory, RecordingState } from '../types';
-import { forwardKinematics } from '../utils/kinematics';
+import type {
+  RobotArmConfig,
+  MotionFrame,
+  MotionTrajectory,
+  RecordingState,
+  PointerInput,
+  ArmControl,
+  Obstacle,
+  ArmCollision,
+  TargetPose,
+  Vector2D
+} from '../types';
+import { forwardKinematics, maxJointAngleDelta, distance } from '../utils/kinematics';
+import { getArmCollisions, getCollidingLinks } from '../utils/collision';
+import { recordWaypointHits } from '../utils/waypoints';
+import { advanceScene, getRecordedSceneOffset } from '../utils/scene';
 
 interface UseRecordingProps {
   recordingState: RecordingState;
   robotConfig: RobotArmConfig;
   currentTrajectory: MotionTrajectory | null;
   setCurrentTrajectory: (trajectory: MotionTrajectory) => void;
+  pointerInput: PointerInput;
+  armControl: ArmControl;
+  obstacles: Obstacle[];
+  blockedCollisions: ArmCollision[];
+  setTargetPose: (pose: TargetPose) => void;
 }
 
 export function useRecording({
   recordingState,
   robotConfig,
   currentTrajectory,
-  setCurrentTrajectory
+  setCurrentTrajectory,
+  pointerInput,
+  armControl,
+  obstacles,
+  blockedCollisions,
+  setTargetPose
 }: UseRecordingProps) {
   const startTimeRef = useRef<number>(0);
-  const lastRecordedConfigRef = useRef<{ shoulderAngle: number; elbowAngle: number } | null>(null);
+  const lastRecordedAnglesRef = useRef<number[] | null>(null);
+  const lastRecordedTargetRef = useRef<TargetPose | null>(null);
+  const lastBlockedRef = useRef(false);
   const animationFrameRef = useRef<number | undefined>(undefined);
   const robotConfigRef = useRef(robotConfig);
   const currentTrajectoryRef = useRef(currentTrajectory);
   const setCurrentTrajectoryRef = useRef(setCurrentTrajectory);
+  const pointerInputRef = useRef(pointerInput);
+  const armControlRef = useRef(armControl);
+  const obstaclesRef = useRef(obstacles);
+  const blockedCollisionsRef = useRef(blockedCollisions);
+  const setTargetPoseRef = useRef(setTargetPose);
+  // Scene clock: time of the previous tick and the moving target's evasion offset
+  const lastTickRef = useRef(0);
+  const sceneOffsetRef = useRef<Vector2D>({ x: 0, y: 0 });
 
   // Keep refs in sync
   useEffect(() => {
     robotConfigRef.current = robotConfig;
     currentTrajectoryRef.current = currentTrajectory;
     setCurrentTrajectoryRef.current = setCurrentTrajectory;
-  }, [robotConfig, currentTrajectory, setCurrentTrajectory]);
+    pointerInputRef.current = pointerInput;
+    armControlRef.current = armControl;
+    obstaclesRef.current = obstacles;
+    blockedCollisionsRef.current = blockedCollisions;
+    setTargetPoseRef.current = setTargetPose;
+  }, [
+    robotConfig,
+    currentTrajectory,
+    setCurrentTrajectory,
+    pointerInput,
+    armControl,
+    obstacles,
+    blockedCollisions,
+    setTargetPose
+  ]);
 
   // Recording loop using requestAnimationFrame
   useEffect(() => {
@@ -45,6 +97,12 @@ export function useRecording({
           ? trajectory.frames[trajectory.frames.length - 1].timestamp
           : 0;
         startTimeRef.current = performance.now() - baseTimestamp;
+
+        // A continued recording picks the scene up where its last frame left it
+        lastTickRef.current = baseTimestamp;
+        sceneOffsetRef.current = trajectory
+          ? getRecordedSceneOffset(trajectory.scene, trajectory.targetPosition, trajectory.frames[trajectory.frames.length - 1])
+          : { x: 0, y: 0 };
       }
 
       // Recording loop
@@ -57,35 +115,85 @@ export function useRecording({
           return;
         }
 
+        // Shared clock for this tick
+        const now = performance.now() - startTimeRef.current;
+
+        // Advance the moving target
+        let target: TargetPose | undefined;
+        if (trajectory.scene) {
+          const scene = advanceScene(
+            trajectory.scene,
+            trajectory.targetPosition,
+            now,
+            now - lastTickRef.current,
+            sceneOffsetRef.current,
+            forwardKinematics(config).endEffectorPosition,
+            config
+          );
+          target = scene.pose;
+          sceneOffsetRef.current = scene.offset;
+          setTargetPoseRef.current(target);
+        }
+        lastTickRef.current = now;
+
         // Check if configuration actually changed (avoid duplicate frames)
-        const lastConfig = lastRecordedConfigRef.current;
-        const hasChanged = !lastConfig ||
-          Math.abs(lastConfig.shoulderAngle - config.shoulderAngle) > 0.0001 ||
-          Math.abs(lastConfig.elbowAngle - config.elbowAngle) > 0.0001;
+        // A blocked move leaves the pose unchanged, but its start is still recorded, and so is
+        // a moving target while the arm holds still
+        const lastAngles = lastRecordedAnglesRef.current;
+        const lastTarget = lastRecordedTargetRef.current;
+        const blocked = blockedCollisionsRef.current.length > 0;
+        const hasChanged = !lastAngles ||
+          maxJointAngleDelta(lastAngles, config.jointAngles) > 0.0001 ||
+          (blocked && !lastBlockedRef.current) ||
+          (!!target && (!lastTarget ||
+            distance(lastTarget.position, target.position) > 0.01 ||
+            lastTarget.radius !== target.radius));
 
         if (hasChanged) {
           // Record this frame
-          const { elbowPosition, endEffectorPosition } = forwardKinematics(config);
+          const { jointPositions, endEffectorPosition } = forwardKinematics(config);
 
           const frame: MotionFrame = {
-            timestamp: performance.now() - startTimeRef.current,
-            shoulderAngle: config.shoulderAngle,
-            elbowAngle: config.elbowAngle,
+            timestamp: now,
+            jointAngles: [...config.jointAngles],
             endEffectorPosition,
-            elbowPosition
+            jointPositions,
+            input: pointerInputRef.current,
+            control: armControlRef.current
           };
 
+          const obstacles = obstaclesRef.current;
+          if (target) {
+            frame.target = target;
+          }
+
+          if (obstacles.length > 0) {
+            frame.collision = {
+              links: getCollidingLinks(blocked ? blockedCollisionsRef.current : getArmCollisions(config, obstacles)),
+              blocked
+            };
+          }
+
+          // Waypoints are hit along the end effector's move since the previous frame
+          const previousFrame = trajectory.frames[trajectory.frames.length - 1];
+          const waypointHits = recordWaypointHits(
+            trajectory,
+            previousFrame?.endEffectorPosition ?? null,
+            endEffectorPosition,
+            frame.timestamp
+          );
+
           setCurrentTrajectoryRef.current({
             ...trajectory,
-            frames: [...trajectory.frames, frame]
+            frames: [...trajectory.frames, frame],
+            ...(waypointHits && { waypointHits })
           });
 
           // Update last recorded configuration
-          lastRecordedConfigRef.current = {
-            shoulderAngle: config.shoulderAngle,
-            elbowAngle: config.elbowAngle
-          };
+          lastRecordedAnglesRef.current = [...config.jointAngles];
+          lastRecordedTargetRef.current = target ?? null;
         }
+        lastBlockedRef.current = blocked;
 
         // Continue recording loop
         animationFrameRef.current = requestAnimationFrame(recordFrame);
@@ -100,7 +208,9 @@ export function useRecording({
         animationFrameRef.current = undefined;
       }
       startTimeRef.current = 0;
-      lastRecordedConfigRef.current = null;
+      lastRecordedAnglesRef.current = null;
+      lastRecordedTargetRef.current = null;
+      lastBlockedRef.current = false;
     }
 
     // Cleanup
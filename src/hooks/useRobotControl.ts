@@ -1,28 +1,52 @@
 /**
  * useRobotControl hook
  * Manages robot movement using inverse kinematics and mouse following
+ * Dragging is relative: pointer movement since the grab is scaled by the sensitivity and
+ * added to where the end effector was grabbed, so the grab offset is kept.
+ * Grabbing a link or elbow turns only that joint, by the pointer's rotation about it.
+ * In the 'block' collision mode, moves that would push the arm into an obstacle stop short
+ * of it.
+ * Also applies joint-space jogs (keyboard or gamepad) directly to the joints
  */
 
 import { useEffect, useState, useRef } from 'react';
-import type { Vector2D, RobotArmConfig, RecordingState, MotionTrajectory } from '../types';
+import type {
+  Vector2D,
+  RobotArmConfig,
+  RecordingState,
+  MotionTrajectory,
+  Obstacle,
+  CollisionMode,
+  ArmCollision
+} from '../types';
 import {
   forwardKinematics,
-  inverseKinematics,
-  isInTargetZone
+  solveInverseKinematics,
+  distance,
+  angleTo,
+  normalizeAngle,
+  maxJointAngleDelta,
+  clampJointAngles,
+  clampToJointLimit
 } from '../utils/kinematics';
-import {
-  ROBOT_CONFIG,
-  SHOULDER_POSITION,
-  TARGET_CONFIG
-} from '../constants/config';
+import { sweepArmMove } from '../utils/collision';
+import { hasReachedTarget } from '../utils/waypoints';
 
 interface UseRobotControlProps {
   mousePosition: Vector2D | null;
+  pointerPath: Vector2D[];
+  jointTarget: number[] | null;
+  grabbedJoint: number | null;  // Joint turned by dragging a link or elbow (null when dragging the end effector)
+  sensitivity: number | null;   // Pointer movement scale; null when targets are absolute (jogging)
   isFollowing: boolean;
   setIsFollowing: (following: boolean) => void;
   robotConfig: RobotArmConfig;
   setRobotConfig: (config: RobotArmConfig | ((prev: RobotArmConfig) => RobotArmConfig)) => void;
   targetPosition: Vector2D | null;
+  targetRadius: number;
+  obstacles: Obstacle[];
+  collisionMode: CollisionMode;
+  enabled: boolean;             // Whether the arm may be driven: during a study prompt, and not while a motion is replayed
   recordingState: RecordingState;
   currentTrajectory: MotionTrajectory | null;
   startRecording: () => void;
@@ -31,30 +55,53 @@ interface UseRobotControlProps {
 
 interface UseRobotControlReturn {
   actualTargetPosition: Vector2D | null;
+  isTargetClamped: boolean;
+  blockedCollisions: ArmCollision[];  // Contacts the latest refused move would have made
   hasStartedMoving: boolean;
 }
 
+type CachedIK = { jointAngles: number[]; clampedTarget: Vector2D; clamped: boolean };
+
+const NO_COLLISIONS: ArmCollision[] = [];
+
 export function useRobotControl({
   mousePosition,
+  pointerPath,
+  jointTarget,
+  grabbedJoint,
+  sensitivity,
   isFollowing,
   setIsFollowing,
   robotConfig,
   setRobotConfig,
   targetPosition,
+  targetRadius,
+  obstacles,
+  collisionMode,
+  enabled,
   recordingState,
   currentTrajectory,
   startRecording,
   stopRecording
 }: UseRobotControlProps): UseRobotControlReturn {
   const [actualTargetPosition, setActualTargetPosition] = useState<Vector2D | null>(null);
+  const [isTargetClamped, setIsTargetClamped] = useState(false);
+  const [blockedCollisions, setBlockedCollisions] = useState<ArmCollision[]>(NO_COLLISIONS);
   const [hasStartedMoving, setHasStartedMoving] = useState(false);
   const robotConfigRef = useRef(robotConfig);
   const setIsFollowingRef = useRef(setIsFollowing);
   const setRobotConfigRef = useRef(setRobotConfig);
   const startRecordingRef = useRef(startRecording);
   const stopRecordingRef = useRef(stopRecording);
+  const obstaclesRef = useRef(obstacles);
+  const currentTrajectoryRef = useRef(currentTrajectory);
+  const collisionModeRef = useRef(collisionMode);
   const lastMousePositionRef = useRef<Vector2D | null>(null);
-  const cachedIKRef = useRef<{ shoulderAngle: number; elbowAngle: number; clampedTarget: Vector2D } | null>(null);
+  const cachedIKRef = useRef<CachedIK | null>(null);
+  // Pointer and end effector positions when the arm was grabbed
+  const grabRef = useRef<{ pointer: Vector2D; endEffector: Vector2D; sensitivity: number } | null>(null);
+  // Pointer position of the last joint drag step
+  const jointDragRef = useRef<{ joint: number; pointer: Vector2D } | null>(null);
 
   // Keep refs in sync
   useEffect(() => {
@@ -63,7 +110,40 @@ export function useRobotControl({
     setRobotConfigRef.current = setRobotConfig;
     startRecordingRef.current = startRecording;
     stopRecordingRef.current = stopRecording;
-  }, [robotConfig, setIsFollowing, setRobotConfig, startRecording, stopRecording]);
+    obstaclesRef.current = obstacles;
+    collisionModeRef.current = collisionMode;
+    currentTrajectoryRef.current = currentTrajectory;
+  }, [
+    robotConfig,
+    setIsFollowing,
+    setRobotConfig,
+    startRecording,
+    stopRecording,
+    obstacles,
+    collisionMode,
+    currentTrajectory
+  ]);
+
+  /**
+   * Apply new joint angles, or in the 'block' collision mode move as far towards them as
+   * the obstacles allow
+   * @returns Whether the angles were applied in full
+   */
+  const moveJoints = (jointAngles: number[]): boolean => {
+    const config = robotConfigRef.current;
+    const move = collisionModeRef.current === 'block'
+      ? sweepArmMove(config, jointAngles, obstaclesRef.current)
+      : { jointAngles, collisions: NO_COLLISIONS };
+    const blocked = move.collisions;
+    setBlockedCollisions(prev => (prev.length === 0 && blocked.length === 0 ? prev : blocked));
+    if (move.jointAngles === config.jointAngles) return false;
+
+    setRobotConfigRef.current((prevConfig: RobotArmConfig) => ({
+      ...prevConfig,
+      jointAngles: move.jointAngles
+    }));
+    return blocked.length === 0;
+  };
 
   // Reset states when trajectory changes (new prompt or after redraw)
   useEffect(() => {
@@ -82,25 +162,33 @@ export function useRobotControl({
 
   // Direct manipulation: Update robot position instantly via IK every frame while dragging
   useEffect(() => {
-    // Don't allow dragging during playback or when paused
-    if (recordingState === 'playing' || recordingState === 'paused') {
+    // Don't allow dragging outside a prompt, during playback or when paused
+    if (!enabled) {
       setActualTargetPosition(null);
+      setIsTargetClamped(false);
+      setBlockedCollisions(NO_COLLISIONS);
       lastMousePositionRef.current = null;
       cachedIKRef.current = null;
+      grabRef.current = null;
+      jointDragRef.current = null;
       return;
     }
 
     if (!mousePosition || !isFollowing) {
       // Clear actual target when not following
       setActualTargetPosition(null);
+      setIsTargetClamped(false);
+      setBlockedCollisions(NO_COLLISIONS);
       lastMousePositionRef.current = null;
       cachedIKRef.current = null;
+      grabRef.current = null;
+      jointDragRef.current = null;
       return;
     }
 
-    // Check if we've reached the target - stop following and recording if so
+    // Check if we've reached the target (after any waypoints) - stop following and recording if so
     const { endEffectorPosition } = forwardKinematics(robotConfigRef.current);
-    if (targetPosition && isInTargetZone(endEffectorPosition, targetPosition, TARGET_CONFIG.radius)) {
+    if (hasReachedTarget(endEffectorPosition, targetPosition, currentTrajectoryRef.current, targetRadius)) {
       setIsFollowingRef.current(false);
       if (recordingState === 'recording') {
         stopRecordingRef.current();
@@ -108,44 +196,84 @@ export function useRobotControl({
       return;
     }
 
+    if (grabbedJoint !== null) {
+      // Joint drag: turn the grabbed joint by the angle the pointer swept about it
+      // Earlier coalesced samples are included so fast moves unwrap correctly
+      const pivot = forwardKinematics(robotConfigRef.current).jointPositions[grabbedJoint];
+      const lastDrag = jointDragRef.current;
+      let sweep = 0;
+      if (lastDrag && lastDrag.joint === grabbedJoint) {
+        let previous = lastDrag.pointer;
+        for (const point of pointerPath.length > 0 ? pointerPath : [mousePosition]) {
+          sweep += normalizeAngle(angleTo(pivot, point) - angleTo(pivot, previous));
+          previous = point;
+        }
+      }
+      grabRef.current = null;
+      cachedIKRef.current = null;
+      lastMousePositionRef.current = null;
+
+      setActualTargetPosition(null);
+      setIsTargetClamped(false);
+
+      // Small sweeps carry over to the next move instead of being dropped
+      const delta = sweep * (sensitivity ?? 1);
+      if (!lastDrag || lastDrag.joint !== grabbedJoint || Math.abs(delta) > 0.001) {
+        jointDragRef.current = { joint: grabbedJoint, pointer: mousePosition };
+      }
+      if (Math.abs(delta) > 0.001) {
+        const config = robotConfigRef.current;
+        moveJoints(config.jointAngles.map((angle, joint) => joint === grabbedJoint
+          ? clampToJointLimit(angle + delta, config.jointLimits[joint])
+          : angle));
+      }
+
+      // Auto-start recording on first movement
+      if (!hasStartedMoving && recordingState === 'idle') {
+        setHasStartedMoving(true);
+        startRecordingRef.current();
+      }
+      return;
+    }
+    jointDragRef.current = null;
+
+    // Anchor relative motion at the grab, and again when the sensitivity changes so the arm
+    // does not jump
+    if (sensitivity === null) {
+      grabRef.current = null;
+    } else if (!grabRef.current || grabRef.current.sensitivity !== sensitivity) {
+      grabRef.current = { pointer: mousePosition, endEffector: endEffectorPosition, sensitivity };
+    }
+    const grab = grabRef.current;
+    const toArmTarget = (point: Vector2D): Vector2D => grab
+      ? {
+        x: grab.endEffector.x + (point.x - grab.pointer.x) * grab.sensitivity,
+        y: grab.endEffector.y + (point.y - grab.pointer.y) * grab.sensitivity
+      }
+      : point;
+
     // Throttle IK calculations - only recalculate if mouse moved significantly (> 2 pixels)
     const lastMouse = lastMousePositionRef.current;
     const mouseMovedSignificantly = !lastMouse ||
       Math.abs(mousePosition.x - lastMouse.x) > 2 ||
       Math.abs(mousePosition.y - lastMouse.y) > 2;
 
-    let ik: { shoulderAngle: number; elbowAngle: number; clampedTarget: Vector2D };
+    let ik: CachedIK;
 
     if (mouseMovedSignificantly) {
-      // Try both elbow configurations and choose the one closest to current
-      // This prevents unwanted flipping when grabbing the end effector
-      const ikElbowUp = inverseKinematics(
-        SHOULDER_POSITION,
-        mousePosition,
-        ROBOT_CONFIG.upperArmLength,
-        ROBOT_CONFIG.lowerArmLength,
-        true
-      );
-
-      const ikElbowDown = inverseKinematics(
-        SHOULDER_POSITION,
-        mousePosition,
-        ROBOT_CONFIG.upperArmLength,
-        ROBOT_CONFIG.lowerArmLength,
-        false
-      );
-
-      // Calculate angular distance for both solutions
-      const currentShoulder = robotConfigRef.current.shoulderAngle;
-      const currentElbow = robotConfigRef.current.elbowAngle;
-
-      const distUp = Math.abs(ikElbowUp.shoulderAngle - currentShoulder) +
-                     Math.abs(ikElbowUp.elbowAngle - currentElbow);
-      const distDown = Math.abs(ikElbowDown.shoulderAngle - currentShoulder) +
-                       Math.abs(ikElbowDown.elbowAngle - currentElbow);
-
-      // Choose the solution with minimal joint angle change
-      ik = distUp < distDown ? ikElbowUp : ikElbowDown;
+      // Solve IK starting from the current pose so the solution stays close to it
+      // Flipping is disabled: when the nearest solution is outside the joint limits,
+      // the arm stops at the limit instead of jumping to the other elbow configuration
+      // Stepping through the earlier coalesced samples of the move first keeps the arm on
+      // the path the pointer actually took, instead of jumping straight to its latest position
+      let config = robotConfigRef.current;
+      for (const point of pointerPath.slice(0, -1)) {
+        config = { ...config, jointAngles: solveInverseKinematics(config, toArmTarget(point), false).jointAngles };
+      }
+      const armTarget = toArmTarget(mousePosition);
+      const solution = solveInverseKinematics(config, armTarget, false);
+      // Unreachable targets are moved onto the workspace boundary
+      ik = { ...solution, clamped: distance(solution.clampedTarget, armTarget) > 1e-6 };
 
       // Cache the result
       cachedIKRef.current = ik;
@@ -161,21 +289,15 @@ export function useRobotControl({
     // Store the clamped target position for visualization
     // This represents where the end effector will actually be
     setActualTargetPosition(ik.clampedTarget);
+    setIsTargetClamped(ik.clamped);
 
     // Only update robot config if angles changed significantly (> 0.001 radians)
-    const currentShoulder = robotConfigRef.current.shoulderAngle;
-    const currentElbow = robotConfigRef.current.elbowAngle;
     const anglesChangedSignificantly =
-      Math.abs(ik.shoulderAngle - currentShoulder) > 0.001 ||
-      Math.abs(ik.elbowAngle - currentElbow) > 0.001;
+      maxJointAngleDelta(ik.jointAngles, robotConfigRef.current.jointAngles) > 0.001;
 
     if (anglesChangedSignificantly) {
       // Update joint angles immediately (direct manipulation - no interpolation)
-      setRobotConfigRef.current((prevConfig: RobotArmConfig) => ({
-        ...prevConfig,
-        shoulderAngle: ik.shoulderAngle,
-        elbowAngle: ik.elbowAngle
-      }));
+      moveJoints(ik.jointAngles);
     }
 
     // Auto-start recording on first movement
@@ -185,14 +307,42 @@ export function useRobotControl({
     }
   }, [
     mousePosition,
+    pointerPath,
+    grabbedJoint,
+    sensitivity,
     isFollowing,
+    enabled,
     targetPosition,
+    targetRadius,
     recordingState,
     hasStartedMoving
   ]);
 
+  // Joint-space jogging: move the joints directly, without IK
+  useEffect(() => {
+    if (!jointTarget || !enabled) return;
+
+    // Reaching the target ends the motion, as when dragging
+    const { endEffectorPosition } = forwardKinematics(robotConfigRef.current);
+    if (hasReachedTarget(endEffectorPosition, targetPosition, currentTrajectoryRef.current, targetRadius)) {
+      if (recordingState === 'recording') {
+        stopRecordingRef.current();
+      }
+      return;
+    }
+
+    moveJoints(clampJointAngles(jointTarget, robotConfigRef.current.jointLimits));
+
+    // Auto-start recording on first movement
+    if (recordingState === 'idle') {
+      startRecordingRef.current();
+    }
+  }, [jointTarget, targetPosition, targetRadius, enabled, recordingState]);
+
   return {
     actualTargetPosition,
+    isTargetClamped,
+    blockedCollisions,
     hasStartedMoving
   };
 }
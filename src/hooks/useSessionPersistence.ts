@@ -0,0 +1,105 @@
+/**
+ * useSessionPersistence hook
+ * Writes the in-progress session to IndexedDB as it changes
+ * Writes are throttled (the trajectory changes every frame while recording) and
+ * flushed when the page is hidden so a closed tab loses at most one interval.
+ * A completed session is not persisted: its snapshot is cleared so it is not offered
+ * for resuming.
+ */
+
+import { useEffect, useRef } from 'react';
+import type {
+  AppState,
+  UserSession,
+  MotionTrajectory,
+  RobotArmConfig,
+  SessionSnapshot
+} from '../types';
+import { saveSessionSnapshot, clearSessionSnapshot } from '../utils/sessionPersistence';
+import { PERSISTENCE_CONFIG } from '../constants/config';
+
+interface UseSessionPersistenceProps {
+  appState: AppState;
+  userSession: UserSession | null;
+  currentTrajectory: MotionTrajectory | null;
+  undoHistory: MotionTrajectory[];
+  redoHistory: MotionTrajectory[];
+  robotConfig: RobotArmConfig;
+}
+
+export function useSessionPersistence({
+  appState,
+  userSession,
+  currentTrajectory,
+  undoHistory,
+  redoHistory,
+  robotConfig
+}: UseSessionPersistenceProps) {
+  const pendingSnapshotRef = useRef<SessionSnapshot | null>(null);
+  const saveTimeoutRef = useRef<number | undefined>(undefined);
+
+  // Write the latest pending snapshot, if any
+  const flushRef = useRef(() => {
+    if (saveTimeoutRef.current !== undefined) {
+      window.clearTimeout(saveTimeoutRef.current);
+      saveTimeoutRef.current = undefined;
+    }
+
+    const snapshot = pendingSnapshotRef.current;
+    if (!snapshot) return;
+    pendingSnapshotRef.current = null;
+
+    saveSessionSnapshot({ ...snapshot, savedAt: Date.now() }).catch((error: Error) => {
+      console.error('Error saving session:', error);
+    });
+  });
+
+  // Queue a snapshot whenever the session changes
+  useEffect(() => {
+    // Nothing to persist until a session has started
+    if (!userSession || appState === 'splash') return;
+
+    // The session is over: drop any pending write and forget the saved one
+    if (appState === 'completed') {
+      pendingSnapshotRef.current = null;
+      window.clearTimeout(saveTimeoutRef.current);
+      saveTimeoutRef.current = undefined;
+      clearSessionSnapshot().catch((error: Error) => {
+        console.error('Error clearing saved session:', error);
+      });
+      return;
+    }
+
+    pendingSnapshotRef.current = {
+      version: PERSISTENCE_CONFIG.snapshotVersion,
+      savedAt: 0,
+      appState,
+      userSession,
+      currentTrajectory,
+      undoHistory,
+      redoHistory,
+      robotConfig
+    };
+
+    if (saveTimeoutRef.current === undefined) {
+      saveTimeoutRef.current = window.setTimeout(flushRef.current, PERSISTENCE_CONFIG.saveIntervalMs);
+    }
+  }, [appState, userSession, currentTrajectory, undoHistory, redoHistory, robotConfig]);
+
+  // Flush when the page is hidden or closed, and on unmount
+  useEffect(() => {
+    const flush = flushRef.current;
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') flush();
+    };
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('pagehide', flush);
+
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('pagehide', flush);
+      flush();
+    };
+  }, []);
+}
@@ -0,0 +1,72 @@
+/**
+ * useSessionUpload hook
+ * Uploads the completed session to the collection endpoint and tracks its progress
+ */
+
+import { useCallback, useEffect, useSyncExternalStore } from 'react';
+import type { StudyProtocol, UserSession, UploadState } from '../types';
+import { buildSessionZip } from '../utils/dataExport';
+import { subscribeToUploads, getUploadState, getUploadEndpoint, submitUpload } from '../utils/upload';
+import { EXPORT_CONFIG } from '../constants/config';
+
+interface UseSessionUploadProps {
+  protocol: StudyProtocol | null;
+  userSession: UserSession | null;
+}
+
+interface UseSessionUploadResult {
+  enabled: boolean;                 // False when no endpoint is configured
+  uploadState: UploadState | null;
+  retry: () => void;
+}
+
+export function useSessionUpload({
+  protocol,
+  userSession
+}: UseSessionUploadProps): UseSessionUploadResult {
+  const endpoint = getUploadEndpoint(protocol);
+  const sessionId = userSession?.sessionId ?? '';
+
+  const uploadState = useSyncExternalStore(
+    subscribeToUploads,
+    () => getUploadState(sessionId)
+  );
+
+  const upload = useCallback(async () => {
+    if (!endpoint || !userSession) return;
+
+    const participantId = userSession.userId || 'anonymous';
+    const { blob, filename } = await buildSessionZip(
+      userSession.completedMotions,
+      participantId,
+      userSession.sessionId,
+      userSession.promptSet,
+      userSession.assignment,
+      EXPORT_CONFIG
+    );
+
+    await submitUpload({
+      sessionId: userSession.sessionId,
+      participantId,
+      endpoint,
+      filename,
+      payload: blob,
+      createdAt: Date.now(),
+      attempts: 0,
+      lastError: null
+    });
+  }, [endpoint, userSession]);
+
+  const retry = useCallback(() => {
+    upload().catch((error: Error) => {
+      console.error('Error uploading session:', error);
+    });
+  }, [upload]);
+
+  // Upload once when the session is complete
+  useEffect(() => {
+    retry();
+  }, [retry]);
+
+  return { enabled: endpoint !== '', uploadState, retry };
+}
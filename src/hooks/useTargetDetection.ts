@@ -1,16 +1,20 @@
 /**
  * useTargetDetection hook
  * Monitors when the robot reaches the target position
+ * The target is tested at its current pose, which moves in moving-target scenes
+ * With waypoints, the target only counts once every waypoint has been hit (useRecording
+ * records the hits with the frames)
  */
 
 import { useEffect } from 'react';
 import type { RobotArmConfig, Vector2D, MotionTrajectory } from '../types';
-import { forwardKinematics, isInTargetZone } from '../utils/kinematics';
-import { TARGET_CONFIG } from '../constants/config';
+import { forwardKinematics } from '../utils/kinematics';
+import { hasReachedTarget } from '../utils/waypoints';
 
 interface UseTargetDetectionProps {
   robotConfig: RobotArmConfig;
   targetPosition: Vector2D | null;
+  targetRadius: number;
   currentTrajectory: MotionTrajectory | null;
   setCurrentTrajectory: (trajectory: MotionTrajectory) => void;
 }
@@ -18,6 +22,7 @@ interface UseTargetDetectionProps {
 export function useTargetDetection({
   robotConfig,
   targetPosition,
+  targetRadius,
   currentTrajectory,
   setCurrentTrajectory
 }: UseTargetDetectionProps) {
@@ -26,7 +31,7 @@ export function useTargetDetection({
 
     const { endEffectorPosition } = forwardKinematics(robotConfig);
 
-    if (isInTargetZone(endEffectorPosition, targetPosition, TARGET_CONFIG.radius)) {
+    if (hasReachedTarget(endEffectorPosition, targetPosition, currentTrajectory, targetRadius)) {
       if (!currentTrajectory.completed) {
         setCurrentTrajectory({
           ...currentTrajectory,
@@ -34,5 +39,5 @@ export function useTargetDetection({
         });
       }
     }
-  }, [robotConfig, targetPosition, currentTrajectory, setCurrentTrajectory]);
+  }, [robotConfig, targetPosition, targetRadius, currentTrajectory, setCurrentTrajectory]);
 }
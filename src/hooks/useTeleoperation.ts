@@ -0,0 +1,200 @@
+/**
+ * useTeleoperation hook
+ * Keyboard and gamepad input devices, alongside the pointer handled by useMouseTracking
+ * Keyboard jogging moves the end effector (Cartesian) or individual joints; gamepad sticks
+ * drive joint velocities. Both feed useRobotControl: Cartesian jogs as a virtual pointer
+ * target, joint jogs as target joint angles.
+ */
+
+import { useState, useRef, useEffect } from 'react';
+import type { Vector2D, RobotArmConfig, TeleopDevice, JogMode } from '../types';
+import { forwardKinematics, clampToWorkspace, clampJointAngles } from '../utils/kinematics';
+import {
+  getKeyboardCommand,
+  getGamepadCommand,
+  isJogging,
+  isJogKey,
+  type JogCommand
+} from '../utils/teleoperation';
+import { TELEOP_CONFIG } from '../constants/config';
+
+interface UseTeleoperationProps {
+  robotConfig: RobotArmConfig;
+  enabled: boolean;             // Whether the arm may be driven (see useRobotControl)
+}
+
+interface UseTeleoperationReturn {
+  teleopTarget: Vector2D | null;      // End effector target while jogging in Cartesian mode
+  jointTarget: number[] | null;       // Joint angles while jogging joints
+  activeDevice: TeleopDevice | null;  // Device currently jogging the arm
+  jogMode: JogMode;
+  toggleJogMode: () => void;
+}
+
+/**
+ * Whether a key event is meant for a form field rather than the arm
+ */
+function isEditableTarget(target: EventTarget | null): boolean {
+  return target instanceof HTMLElement &&
+    (target.isContentEditable || ['INPUT', 'SELECT', 'TEXTAREA'].includes(target.tagName));
+}
+
+/**
+ * First connected gamepad, if any
+ */
+function getConnectedGamepad(): Gamepad | null {
+  const gamepads = navigator.getGamepads?.() ?? [];
+  return gamepads.find(gamepad => gamepad?.connected) ?? null;
+}
+
+export function useTeleoperation({
+  robotConfig,
+  enabled
+}: UseTeleoperationProps): UseTeleoperationReturn {
+  const [teleopTarget, setTeleopTarget] = useState<Vector2D | null>(null);
+  const [jointTarget, setJointTarget] = useState<number[] | null>(null);
+  const [activeDevice, setActiveDevice] = useState<TeleopDevice | null>(null);
+  const [jogMode, setJogMode] = useState<JogMode>('cartesian');
+  const robotConfigRef = useRef(robotConfig);
+  const jogModeRef = useRef(jogMode);
+  const heldKeysRef = useRef(new Set<string>());
+  const cartesianTargetRef = useRef<Vector2D | null>(null);
+
+  // Keep refs in sync
+  useEffect(() => {
+    robotConfigRef.current = robotConfig;
+    jogModeRef.current = jogMode;
+  }, [robotConfig, jogMode]);
+
+  const toggleJogMode = () => {
+    setJogMode(mode => (mode === 'cartesian' ? 'joint' : 'cartesian'));
+  };
+
+  // Track held keys
+  useEffect(() => {
+    if (!enabled) return;
+
+    const heldKeys = heldKeysRef.current;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey || isEditableTarget(e.target)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === TELEOP_CONFIG.modeToggleKey) {
+        if (!e.repeat) toggleJogMode();
+        return;
+      }
+
+      heldKeys.add(key);
+      // Keep arrow keys from scrolling the page while jogging
+      if (isJogKey(key, jogModeRef.current)) {
+        e.preventDefault();
+      }
+    };
+
+    const handleKeyUp = (e: KeyboardEvent) => {
+      heldKeys.delete(e.key.toLowerCase());
+    };
+
+    // Keys released while the window is in the background never send keyup
+    const handleBlur = () => {
+      heldKeys.clear();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
+
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
+      heldKeys.clear();
+    };
+  }, [enabled]);
+
+  // Jogging loop: integrate the active device's velocity command every animation frame
+  useEffect(() => {
+    if (!enabled) return;
+
+    let animationFrame: number;
+    let lastTick = performance.now();
+
+    const tick = (currentTime: number) => {
+      const dt = Math.min(TELEOP_CONFIG.maxTickSeconds, Math.max(0, currentTime - lastTick) / 1000);
+      lastTick = currentTime;
+
+      const config = robotConfigRef.current;
+      const jointCount = config.jointAngles.length;
+
+      // A deflected gamepad stick takes precedence over the keyboard
+      let device: TeleopDevice | null = null;
+      let command: JogCommand | null = null;
+      let mode = jogModeRef.current;
+
+      const gamepad = getConnectedGamepad();
+      const gamepadCommand = gamepad ? getGamepadCommand(gamepad.axes, jointCount) : null;
+      if (gamepadCommand && isJogging(gamepadCommand)) {
+        device = 'gamepad';
+        command = gamepadCommand;
+        mode = 'joint';
+      } else {
+        const heldKeys = heldKeysRef.current;
+        const keyboardCommand = getKeyboardCommand(heldKeys, mode, jointCount, heldKeys.has('shift'));
+        if (isJogging(keyboardCommand)) {
+          device = 'keyboard';
+          command = keyboardCommand;
+        }
+      }
+
+      if (!command) {
+        cartesianTargetRef.current = null;
+        setTeleopTarget(null);
+        setJointTarget(null);
+        setActiveDevice(null);
+      } else if (mode === 'cartesian') {
+        // Accumulate on the jog target rather than the arm, so slow jogs are not lost to
+        // the IK's movement threshold
+        const base = cartesianTargetRef.current ?? forwardKinematics(config).endEffectorPosition;
+        const next = clampToWorkspace(
+          config.shoulderPosition,
+          { x: base.x + command.velocity.x * dt, y: base.y + command.velocity.y * dt },
+          config.linkLengths
+        );
+        cartesianTargetRef.current = next;
+        setTeleopTarget(next);
+        setJointTarget(null);
+        setActiveDevice(device);
+      } else {
+        const velocities = command.jointVelocities;
+        cartesianTargetRef.current = null;
+        setTeleopTarget(null);
+        setJointTarget(clampJointAngles(
+          config.jointAngles.map((angle, joint) => angle + (velocities[joint] ?? 0) * dt),
+          config.jointLimits
+        ));
+        setActiveDevice(device);
+      }
+
+      animationFrame = requestAnimationFrame(tick);
+    };
+
+    animationFrame = requestAnimationFrame(tick);
+
+    return () => {
+      cancelAnimationFrame(animationFrame);
+      cartesianTargetRef.current = null;
+      setTeleopTarget(null);
+      setJointTarget(null);
+      setActiveDevice(null);
+    };
+  }, [enabled]);
+
+  return {
+    teleopTarget,
+    jointTarget,
+    activeDevice,
+    jogMode,
+    toggleJogMode
+  };
+}
@@ -0,0 +1,25 @@
+/**
+ * useUploadQueue hook
+ * Retries sessions left in the upload queue by an earlier visit, at startup and
+ * whenever the browser comes back online
+ */
+
+import { useEffect } from 'react';
+import { processUploadQueue } from '../utils/upload';
+
+export function useUploadQueue() {
+  useEffect(() => {
+    const processQueue = () => {
+      processUploadQueue().catch((error: Error) => {
+        console.error('Error processing upload queue:', error);
+      });
+    };
+
+    processQueue();
+    window.addEventListener('online', processQueue);
+
+    return () => {
+      window.removeEventListener('online', processQueue);
+    };
+  }, []);
+}
@@ -10,16 +10,97 @@ export interface Vector2D {
   y: number;
 }
 
+/**
+ * Allowed range of a single joint (radians)
+ * Expressed in the same frame as the joint angle: the +x axis for the shoulder,
+ * the previous link for every other joint
+ */
+export interface JointLimit {
+  min: number;
+  max: number;
+}
+
 /**
  * Robot arm configuration
- * A two-limbed robot arm with shoulder and elbow joints
+ * A planar serial chain of N links, one revolute joint at the base of each link.
+ * Joint 0 is the shoulder; its angle is measured from the +x axis, every other
+ * joint angle is relative to the previous link.
  */
 export interface RobotArmConfig {
   shoulderPosition: Vector2D;  // Fixed base position
-  upperArmLength: number;       // Length of first segment
-  lowerArmLength: number;       // Length of second segment
-  shoulderAngle: number;        // Angle of upper arm (radians)
-  elbowAngle: number;           // Angle of elbow joint (radians)
+  linkLengths: number[];        // Length of each segment, base to tip
+  jointAngles: number[];        // Angle of each joint (radians), base to tip
+  jointLimits: JointLimit[];    // Allowed range of each joint, base to tip
+}
+
+/**
+ * Teleoperation devices and what they jog
+ * Cartesian jogging moves the end effector (through IK), joint jogging moves joints directly
+ */
+export type TeleopDevice = 'keyboard' | 'gamepad';
+export type JogMode = 'cartesian' | 'joint';
+
+/**
+ * Static obstacle in the workspace (canvas coordinates)
+ */
+export type Obstacle =
+  | { shape: 'circle'; center: Vector2D; radius: number }
+  | { shape: 'rectangle'; x: number; y: number; width: number; height: number }  // x/y: top-left corner
+  | { shape: 'polygon'; points: Vector2D[] };                                      // Vertices in order
+
+/**
+ * What touching an obstacle does: stop the arm short of it, or let it pass and log the contact
+ */
+export type CollisionMode = 'block' | 'log';
+
+/**
+ * A link of the arm touching an obstacle
+ */
+export interface ArmCollision {
+  link: number;                 // Link index, base to tip
+  obstacle: number;             // Index into the preset's obstacles
+}
+
+/**
+ * Obstacle contact when a frame was captured
+ */
+export interface FrameCollision {
+  links: number[];              // Links touching (or, when blocked, stopped from entering) an obstacle
+  blocked: boolean;             // A move into an obstacle was blocked
+}
+
+/**
+ * How the arm was being moved when a frame was captured
+ * End effector control goes through IK (dragging the gripper or Cartesian jogging); joint
+ * control turns joints directly (dragging a link or elbow, or jogging joints)
+ */
+export type ControlMode = 'end-effector' | 'joint';
+
+export interface ArmControl {
+  mode: ControlMode;
+  joint: number | null;         // Joint turned by dragging a link or elbow (null otherwise)
+}
+
+/**
+ * Pointer type, pressure, tilt and buttons of the latest pointer event
+ */
+export interface PointerDetails {
+  pointerType: string;          // 'mouse', 'pen' or 'touch', or the teleoperation device ('' before any input)
+  pressure: number;             // 0–1 (0.5 while a mouse button is held)
+  tiltX: number;                // Pen tilt towards +x, degrees (-90 to 90, 0 for mouse and touch)
+  tiltY: number;                // Pen tilt towards +y, degrees (-90 to 90, 0 for mouse and touch)
+  buttons: number;              // Pressed buttons bitmask, as in PointerEvent.buttons
+}
+
+/**
+ * Raw pointer input when a frame was captured
+ * Shows what the participant tried to do, before inverse kinematics clamped it
+ */
+export interface PointerInput extends PointerDetails {
+  pointerPosition: Vector2D | null; // Pointer in canvas coordinates (null when off the canvas)
+  clampedTarget: Vector2D | null;   // Target the IK moved the end effector to (null when not following)
+  clamped: boolean;                 // The pointer was outside the workspace and the target was clamped
+  isFollowing: boolean;             // The arm was following the pointer
 }
 
 /**
@@ -27,10 +108,57 @@ export interface RobotArmConfig {
  */
 export interface MotionFrame {
   timestamp: number;            // Time in milliseconds
-  shoulderAngle: number;        // Shoulder joint angle (radians)
-  elbowAngle: number;           // Elbow joint angle (radians)
+  jointAngles: number[];        // Joint angles (radians), base to tip
   endEffectorPosition: Vector2D; // Position of end of arm
-  elbowPosition: Vector2D;      // Position of elbow joint
+  jointPositions: Vector2D[];   // Position of each joint, base (shoulder) first
+  synthesized?: boolean;        // Interpolated by the resampler rather than captured
+  input?: PointerInput;         // Raw pointer input (absent for imported and legacy recordings)
+  control?: ArmControl;         // Control mode (absent for imported and legacy recordings)
+  collision?: FrameCollision;   // Obstacle contact (absent when the pose preset has no obstacles)
+  target?: TargetPose;          // Target when the frame was captured (present for moving-target scenes)
+}
+
+/**
+ * Target position and size at one moment of a scene
+ */
+export interface TargetPose {
+  position: Vector2D;
+  radius: number;               // pixels
+}
+
+/**
+ * Target pose at a point of a scene timeline
+ */
+export interface TargetKeyframe {
+  timeMs: number;               // Time since the motion started
+  position?: Vector2D;          // Defaults to the preset's targetPosition
+  radius?: number;              // pixels (defaults to TARGET_CONFIG.radius)
+}
+
+/**
+ * How the target moves and changes size while a motion is recorded
+ * Scene time starts with the recording. Keyframes are interpolated linearly and held after
+ * the last one (or repeated when looping); oscillation and evasion are added on top.
+ */
+export interface SceneTimeline {
+  keyframes?: TargetKeyframe[];  // Ordered by time
+  loop?: boolean;                // Repeat the keyframes from the start after the last one
+  oscillation?: {
+    amplitude: Vector2D;         // Peak offset from the keyframed position, pixels
+    periodMs: number;
+  };
+  evade?: {
+    distance: number;            // The target drifts away while the end effector is this close (pixels)
+    speed: number;               // Drift speed, px/s
+  };
+}
+
+/**
+ * Point the end effector must pass through before reaching the target
+ */
+export interface Waypoint {
+  position: Vector2D;
+  radius?: number;              // pixels (defaults to TARGET_CONFIG.radius)
 }
 
 /**
@@ -45,6 +173,155 @@ export interface MotionTrajectory {
   completed: boolean;
   attemptCount: number;
   totalTimeMs: number;
+  posePreset?: string;          // Name of the pose preset the motion was recorded with
+  mouseSensitivity?: number;    // Pointer-to-end-effector movement scale the motion was drawn with
+  waypoints?: Waypoint[];       // Waypoints of the prompt, in their listed order
+  waypointsInOrder?: boolean;   // Waypoints must be hit in their listed order (default true)
+  waypointHits?: (number | null)[]; // Frame timestamp at which each waypoint was hit (null until hit)
+  scene?: SceneTimeline;        // Moving target of the prompt (targetPosition is its base position)
+}
+
+/**
+ * Time derivatives of a single motion frame
+ * Angular quantities are per joint (base to tip), in radians and seconds;
+ * end effector quantities are in pixels and seconds
+ */
+export interface FrameDerivatives {
+  jointVelocities: number[];        // rad/s
+  jointAccelerations: number[];     // rad/s²
+  jointJerks: number[];             // rad/s³
+  endEffectorVelocity: Vector2D;    // px/s
+  endEffectorSpeed: number;         // px/s (magnitude of velocity)
+  endEffectorAcceleration: number;  // px/s² (magnitude of acceleration vector)
+  endEffectorJerk: number;          // px/s³ (magnitude of jerk vector)
+}
+
+/**
+ * Physical model of the arm for dynamics, one entry per link or joint (base to tip)
+ * SI units; canvas lengths are converted with metersPerPixel
+ */
+export interface DynamicsParameters {
+  metersPerPixel: number;
+  linkMasses: number[];             // kg
+  linkInertias: number[];           // kg·m², about each link's centre of mass
+  centerOfMassFractions: number[];  // Centre of mass along each link (0 = joint, 1 = next joint)
+  gravity: number;                  // m/s², pointing down the canvas
+  viscousFriction: number[];        // N·m·s/rad at each joint
+  coulombFriction: number[];        // N·m at each joint
+  torqueLimits: number[];           // N·m, peak torque of each joint motor
+}
+
+/**
+ * Inverse dynamics of a single motion frame
+ */
+export interface FrameDynamics {
+  jointTorques: number[];           // N·m the motors must apply, base to tip
+  jointPowers: number[];            // W (torque × joint velocity; negative when braking)
+  totalPower: number;               // W, sum over joints
+  exceedsTorqueLimit: boolean[];    // Per joint: torque magnitude above the motor limit
+}
+
+/**
+ * PID gains and actuator limits of the simulated joint controllers
+ * Gains are per joint, base to tip; motor torques are limited by dynamics.torqueLimits
+ */
+export interface ControllerParameters {
+  kp: number[];                     // N·m/rad
+  ki: number[];                     // N·m/(rad·s)
+  kd: number[];                     // N·m·s/rad
+  maxIntegral: number;              // rad·s, anti-windup bound on each integral term
+  maxVelocity: number;              // rad/s
+  maxAcceleration: number;          // rad/s²
+  timestepMs: number;               // Fixed physics step
+  dynamics: DynamicsParameters;
+}
+
+/**
+ * State of the simulated arm and its controllers
+ */
+export interface ControllerState {
+  timeMs: number;                   // Recording time the state was simulated up to
+  jointAngles: number[];            // rad, as executed
+  jointVelocities: number[];        // rad/s
+  integralErrors: number[];         // rad·s, integral term of each PID controller
+  jointTorques: number[];           // N·m applied on the last step (after saturation)
+}
+
+/**
+ * Difference between the commanded and the executed arm at one time
+ */
+export interface TrackingError {
+  jointErrors: number[];            // rad, commanded − executed, base to tip
+  endEffectorError: number;         // px between the commanded and executed end effector
+}
+
+/**
+ * Tracking error of a whole trajectory executed by the simulated controllers
+ */
+export interface TrackingReport {
+  rmsJointErrors: number[];         // rad
+  maxJointErrors: number[];         // rad
+  rmsEndEffectorError: number;      // px
+  maxEndEffectorError: number;      // px
+  saturatedFraction: number;        // Fraction of steps where some motor hit its torque limit
+}
+
+/**
+ * Smoothing filter of the Smooth tool
+ * - gaussian: Gaussian-weighted average over neighbouring frames
+ * - savitzky-golay: local polynomial least-squares fit over a time window
+ * - butterworth: zero-phase (forward–backward) second-order low-pass
+ * - one-euro: adaptive low-pass that smooths slow motion more than fast motion
+ * - spline: cubic smoothing spline through the frame times
+ */
+export type SmoothingFilter = 'gaussian' | 'savitzky-golay' | 'butterworth' | 'one-euro' | 'spline';
+
+/**
+ * Signals a filter is applied to: the joint angles (positions follow by forward
+ * kinematics) or the end effector path (angles follow by inverse kinematics)
+ */
+export type SmoothingDomain = 'joint' | 'cartesian';
+
+/**
+ * Smoothing of a trajectory
+ */
+export interface SmoothingOptions {
+  filter: SmoothingFilter;
+  domain: SmoothingDomain;
+  strength: number;                 // 0 (none) to 100 (strongest)
+}
+
+/**
+ * How the Retime tool assigns new timestamps
+ * - time-optimal: as fast as the limits allow, starting and ending at rest (pauses are removed)
+ * - uniform: every interval scaled by one factor, so the most demanding moment meets the limits
+ * - preserve-relative: recorded timing kept, stretched only where it exceeds the limits
+ */
+export type RetimingMode = 'time-optimal' | 'uniform' | 'preserve-relative';
+
+/**
+ * Retiming of a trajectory to joint velocity and acceleration limits
+ */
+export interface RetimingOptions {
+  mode: RetimingMode;
+  maxVelocity: number;              // rad/s, every joint
+  maxAcceleration: number;          // rad/s², every joint
+}
+
+/**
+ * Computational Laban Effort descriptors for one trajectory
+ * Weight, Time and Flow are computed on the moving points of the arm (every joint
+ * after the shoulder plus the end effector), each treated as a unit mass
+ */
+export interface EffortFeatures {
+  weight: number;      // Peak kinetic energy, px²/s² (Strong high, Light low)
+  time: number;        // Time-averaged acceleration magnitude, px/s² (Sudden high, Sustained low)
+  space: number | null; // End effector path length / straight-line distance (Direct ≈ 1, Indirect high); null when the path ends where it started
+  flow: number;        // Time-averaged jerk magnitude, px/s³ (Free high, Bound low)
+  straightness: number | null; // Straight-line distance / path length, 0–1 (inverse of space); null without movement
+  pathLength: number;  // End effector path length, px
+  durationMs: number;  // Duration of the recorded motion
+  pressureWeight: number | null; // Time-averaged pen/touch pressure while dragging, 0–1 (Strong high, Light low); null without pressure input
 }
 
 /**
@@ -62,9 +339,11 @@ export type PromptType =
 
 /**
  * Prompt set configuration
+ * A participant sees every prompt of exactly one set
  */
 export interface PromptSet {
-  type: 'laban' | 'metaphor';
+  id: string;                   // Recorded in the data, e.g. 'laban' or 'metaphor'
+  label: string;                // Human-readable name shown on the end screen
   prompts: PromptConfig[];
 }
 
@@ -73,8 +352,57 @@ export interface PromptSet {
  */
 export interface PromptConfig {
   type: PromptType;
-  labanText: string;
-  metaphorText: string;
+  text: string;                 // Wording shown to the participant
+}
+
+/**
+ * How the prompt set is chosen
+ * - fixed: always the first set
+ * - random: uniform over sets
+ * - counterbalanced: cycles through the sets by seed (sequence number or participant ID)
+ */
+export type PromptSetStrategy = 'fixed' | 'random' | 'counterbalanced';
+
+/**
+ * How the prompt order is chosen
+ * - fixed: protocol order
+ * - random: unseeded shuffle
+ * - seeded-random: shuffle seeded by sequence number or participant ID
+ * - latin-square: row of a balanced Latin square (Williams design)
+ * - full-counterbalance: one of all n! permutations
+ */
+export type PromptOrderStrategy = 'fixed' | 'random' | 'seeded-random' | 'latin-square' | 'full-counterbalance';
+
+/**
+ * How prompt sets and prompt orders are assigned to participants
+ */
+export interface AssignmentStrategy {
+  promptSet: PromptSetStrategy;
+  promptOrder: PromptOrderStrategy;
+}
+
+/**
+ * Assignment actually made for a session, recorded for analysis
+ */
+export interface SessionAssignment {
+  promptSetStrategy: PromptSetStrategy;
+  promptOrderStrategy: PromptOrderStrategy;
+  seed: number | null;          // Sequence number or participant ID hash (null for unseeded strategies)
+  row: number | null;           // Latin square row or permutation index (null when not applicable)
+}
+
+/**
+ * Study protocol
+ * Everything that defines a session: prompt sets, trials and how they are assigned
+ */
+export interface StudyProtocol {
+  name: string;
+  promptSets: PromptSet[];
+  trialCount: number;           // Trials per session
+  repetitions: number;          // Times each prompt appears in the pool trials are drawn from
+  posePresets: string[];        // Pose preset per trial (cycled when shorter than trialCount)
+  assignment: AssignmentStrategy;
+  uploadEndpoint?: string;      // Collection endpoint for this study (overrides VITE_UPLOAD_ENDPOINT; bundled protocols only)
 }
 
 /**
@@ -84,9 +412,25 @@ export interface PromptConfig {
 export interface PosePreset {
   name: string;
   shoulderPosition: Vector2D;
-  initialShoulderAngle: number;  // radians
-  initialElbowAngle: number;     // radians
+  linkLengths: number[];         // pixels, base to tip
+  initialJointAngles: number[];  // radians, one per link
+  jointLimits: JointLimit[];     // radians, one per link
   targetPosition: Vector2D;
+  obstacles?: Obstacle[];        // Static obstacles (none when absent)
+  waypoints?: Waypoint[];        // Points to pass through before the target, in order (none when absent)
+  waypointsInOrder?: boolean;    // Waypoints must be hit in their listed order (default true)
+  collisionMode?: CollisionMode; // Defaults to COLLISION_CONFIG.defaultMode
+  scene?: SceneTimeline;         // Moving target (static at targetPosition when absent)
+}
+
+/**
+ * Trials of a single session, expanded from the study protocol
+ */
+export interface SessionPlan {
+  promptSet: string;            // Id of the assigned prompt set
+  promptOrder: PromptType[];    // Prompt of each trial
+  posePresetOrder: string[];    // Pose preset of each trial
+  assignment: SessionAssignment;
 }
 
 /**
@@ -95,12 +439,96 @@ export interface PosePreset {
 export interface UserSession {
   userId: string;               // Prolific ID or auto-generated user ID
   sessionId: string;            // Unique session identifier
-  promptSet: 'laban' | 'metaphor';
-  promptOrder: PromptType[];    // Randomized order
+  protocolName: string;         // Name of the study protocol in use
+  promptSet: string;            // Id of the assigned prompt set
+  promptOrder: PromptType[];    // Prompt of each trial, in presentation order
+  posePresetOrder: string[];    // Pose preset of each trial
+  assignment: SessionAssignment; // How the prompt set and order were assigned
   completedMotions: MotionTrajectory[];
   currentPromptIndex: number;
   startTime: number;            // Session start timestamp
-  activePosePreset: string;     // Name of the active pose preset
+}
+
+/**
+ * One trial of an imported session, from a row of the session CSV
+ */
+export interface ReviewTrial {
+  promptType: PromptType;
+  promptText: string;
+  posePreset: string;           // '' for exports that predate pose presets
+  attemptCount: number;
+  totalTimeMs: number;
+  completed: boolean;
+  trajectory: MotionTrajectory | null;  // null if the trajectory CSV is missing from the ZIP
+}
+
+/**
+ * Session imported from an exported ZIP for review
+ */
+export interface ReviewSession {
+  sourceFile: string;           // Name of the ZIP the session was loaded from
+  participantId: string;
+  sessionId: string;
+  promptSet: string;
+  trials: ReviewTrial[];
+}
+
+/**
+ * Trajectory overlaid on the canvas for comparison
+ */
+export interface OverlayTrace {
+  id: string;
+  label: string;                // Legend text
+  color: string;
+  trajectory: MotionTrajectory;
+  visible: boolean;
+}
+
+/**
+ * Snapshot of an in-progress session, persisted so it survives a reload or crash
+ */
+export interface SessionSnapshot {
+  version: number;              // Snapshot format version (older versions are discarded)
+  savedAt: number;              // Save timestamp
+  appState: AppState;
+  userSession: UserSession;
+  currentTrajectory: MotionTrajectory | null;
+  undoHistory: MotionTrajectory[];
+  redoHistory: MotionTrajectory[];
+  robotConfig: RobotArmConfig;
+}
+
+/**
+ * Session data waiting in the upload queue
+ */
+export interface QueuedUpload {
+  sessionId: string;            // Queue key; the receiver stores one file per session
+  participantId: string;
+  endpoint: string;
+  filename: string;
+  payload: Blob;                // Same ZIP the participant can download
+  createdAt: number;
+  attempts: number;             // Failed attempts so far, across runs
+  lastError: string | null;
+  unsendable?: boolean;         // The request could not even be built; never retried automatically
+}
+
+/**
+ * Upload progress of a queued session
+ * - queued: waiting to be sent
+ * - uploading: request in flight
+ * - retrying: last attempt failed, waiting for the backoff delay
+ * - offline: browser is offline, resumes when the connection returns
+ * - uploaded: received by the endpoint
+ * - failed: every attempt of this run failed, kept in the queue for the next run (or the
+ *   request could not be built, so it is only retried by hand)
+ */
+export type UploadStatus = 'queued' | 'uploading' | 'retrying' | 'offline' | 'uploaded' | 'failed';
+
+export interface UploadState {
+  status: UploadStatus;
+  attempts: number;
+  error: string | null;
 }
 
 /**
@@ -110,7 +538,8 @@ export type AppState =
   | 'splash'
   | 'tutorial'
   | 'recording'
-  | 'completed';
+  | 'completed'
+  | 'review';      // Researcher dashboard (?mode=review)
 
 /**
  * Recording state
@@ -121,6 +550,27 @@ export type RecordingState =
   | 'playing'
   | 'paused';
 
+/**
+ * Inclusive range of frame indices
+ */
+export interface FrameRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * How recorded motion is played back
+ * With an A–B range set, playback stays inside it and repeats it; otherwise `loop`
+ * decides whether playback wraps around at the end of the trajectory
+ */
+export interface PlaybackOptions {
+  speed: number;                // Playback rate, 1 = real time (0.1–4)
+  loop: boolean;                // Wrap around instead of stopping at the end
+  reverse: boolean;             // Play backwards
+  loopRange: FrameRange | null; // A–B range (null = whole trajectory)
+  simulateController: boolean;  // Execute through the simulated joint controllers
+}
+
 /**
  * Target zone configuration
  */
@@ -132,6 +582,7 @@ export interface TargetZone {
 
 /**
  * CSV export data structure
+ * Per-joint columns (joint0Angle, joint0X, joint0Y, ...) depend on the number of links
  */
 export interface TrajectoryCSVData {
   participantId: string;
@@ -140,22 +591,52 @@ export interface TrajectoryCSVData {
   promptText: string;
   frameIndex: number;
   timestamp: number;
-  shoulderAngle: number;
-  elbowAngle: number;
   endEffectorX: number;
   endEffectorY: number;
-  elbowX: number;
-  elbowY: number;
+  [jointColumn: string]: string | number | boolean;
+}
+
+export interface FeaturesCSVData {
+  participantId: string;
+  sessionId: string;
+  promptSet: string;
+  promptType: PromptType;
+  promptText: string;
+  weight: number;
+  time: number;
+  space: number | '';           // Empty when the path ends where it started
+  flow: number;
+  straightness: number | '';    // Empty without movement
+  pathLength: number;
+  durationMs: number;
+  pressureWeight: number | '';  // Empty without pressure input
+}
+
+/**
+ * Options for trajectory CSV export
+ */
+export interface ExportOptions {
+  includeDerivatives?: boolean;     // Add velocity/acceleration/jerk columns
+  includeDynamics?: boolean;        // Add joint torque/power and torque-limit columns
+  resampleRateHz?: number | null;   // Resample trajectories to this rate (adds a synthesized column)
 }
 
 export interface SessionCSVData {
   participantId: string;
   sessionId: string;
-  promptSet: 'laban' | 'metaphor';
+  promptSet: string;
   promptType: PromptType;
   promptText: string;
+  posePreset: string;
   attemptCount: number;
   totalTimeMs: number;
   frameCount: number;
   completed: boolean;
+  assignmentStrategy: string;
+  promptSetStrategy: string;
+  assignmentSeed: number | string;
+  assignmentRow: number | string;
+  mouseSensitivity: number | string; // Empty for motions completed before it was recorded
+  collisionCount: number | string;  // Empty for motions recorded without obstacles
+  waypointHits: string;             // Hit timestamp of each waypoint, ';'-separated (empty when missed)
 }
@@ -3,18 +3,20 @@
  * All drawing functions for the robot arm visualization
  */
 
-import type { Vector2D, MotionFrame } from '../types';
-import { distance } from './kinematics';
+import type { Vector2D, MotionFrame, JointLimit, Obstacle, Waypoint, TrackingError } from '../types';
+import { distance, getReachLimits, isLimitedJoint } from './kinematics';
+import { getWaypointRadius } from './waypoints';
 import {
   CANVAS_CONFIG,
-  ROBOT_CONFIG,
   COLORS,
-  TARGET_CONFIG
+  TARGET_CONFIG,
+  OVERLAY_CONFIG,
+  COLLISION_CONFIG
 } from '../constants/config';
 
-export function drawWorkspace(ctx: CanvasRenderingContext2D, shoulderPosition: Vector2D) {
+export function drawWorkspace(ctx: CanvasRenderingContext2D, shoulderPosition: Vector2D, linkLengths: number[]) {
   // Draw dashed workspace boundary (range circle centered on robot base)
-  const maxReach = ROBOT_CONFIG.upperArmLength + ROBOT_CONFIG.lowerArmLength;
+  const { maxReach } = getReachLimits(linkLengths);
 
   ctx.strokeStyle = 'rgba(100, 116, 139, 0.1)';
   ctx.lineWidth = 2;
@@ -25,12 +27,65 @@ export function drawWorkspace(ctx: CanvasRenderingContext2D, shoulderPosition: V
   ctx.setLineDash([]);
 }
 
+export function drawJointLimits(
+  ctx: CanvasRenderingContext2D,
+  jointPositions: Vector2D[],
+  jointAngles: number[],
+  jointLimits: JointLimit[]
+) {
+  const radius = 34;
+  // Direction of the previous link (the +x axis for the shoulder)
+  let referenceAngle = 0;
+
+  ctx.save();
+  for (let i = 0; i < jointPositions.length; i++) {
+    const limit = jointLimits[i];
+
+    if (isLimitedJoint(limit)) {
+      const position = jointPositions[i];
+
+      // Allowed range as a translucent wedge around the joint
+      ctx.fillStyle = 'rgba(16, 185, 129, 0.12)';
+      ctx.strokeStyle = 'rgba(16, 185, 129, 0.5)';
+      ctx.lineWidth = 1.5;
+      ctx.beginPath();
+      ctx.moveTo(position.x, position.y);
+      ctx.arc(position.x, position.y, radius, referenceAngle + limit.min, referenceAngle + limit.max);
+      ctx.closePath();
+      ctx.fill();
+
+      // Outer arc only (not the wedge edges)
+      ctx.beginPath();
+      ctx.arc(position.x, position.y, radius, referenceAngle + limit.min, referenceAngle + limit.max);
+      ctx.stroke();
+    }
+
+    referenceAngle += jointAngles[i] ?? 0;
+  }
+  ctx.restore();
+}
+
+// Segment colors from base to tip (metallic, getting lighter towards the gripper)
+const SEGMENT_COLORS = ['#94a3b8', '#cbd5e1', '#b8c4d4', '#dbe2ea'];
+
+// Radius of the servo drawn at each elbow joint
+export const ELBOW_JOINT_RADIUS = 15;
+
+/**
+ * Drawn thickness of a link (thinner towards the tip)
+ */
+export function getSegmentThickness(link: number): number {
+  return Math.max(10, 16 - link * 2);
+}
+
 export function drawRobotArmEnhanced(
   ctx: CanvasRenderingContext2D,
-  shoulder: Vector2D,
-  elbow: Vector2D,
+  jointPositions: Vector2D[],
   endEffector: Vector2D
 ) {
+  // Chain of points from shoulder to end effector
+  const points = [...jointPositions, endEffector];
+
   // Shadow/depth effect
   ctx.save();
   ctx.shadowColor = 'rgba(0, 0, 0, 0.3)';
@@ -38,26 +93,121 @@ export function drawRobotArmEnhanced(
   ctx.shadowOffsetX = 4;
   ctx.shadowOffsetY = 4;
 
-  // Upper arm segment (metallic look)
-  drawRoboticArmSegment(ctx, shoulder, elbow, '#94a3b8', 16);
-
-  // Lower arm segment (lighter metallic)
-  drawRoboticArmSegment(ctx, elbow, endEffector, '#cbd5e1', 14);
+  // Arm segments (metallic look, thinner towards the tip)
+  for (let i = 0; i < points.length - 1; i++) {
+    const color = SEGMENT_COLORS[i % SEGMENT_COLORS.length];
+    drawRoboticArmSegment(ctx, points[i], points[i + 1], color, getSegmentThickness(i));
+  }
 
   ctx.restore();
 
   // Shoulder base (fixed mount with actuator)
-  drawShoulderBase(ctx, shoulder);
+  drawShoulderBase(ctx, jointPositions[0]);
 
-  // Elbow joint (servo motor)
-  drawElbowJoint(ctx, elbow);
+  // Elbow joints (servo motors)
+  for (let i = 1; i < jointPositions.length; i++) {
+    drawElbowJoint(ctx, jointPositions[i]);
+  }
 
   // End effector (gripper/hand)
-  drawRoboticGripper(ctx, endEffector, elbow);
+  drawRoboticGripper(ctx, endEffector, points[points.length - 2]);
+}
+
+
+/**
+ * Draw static obstacles
+ * @param contactObstacles - Indices of obstacles the arm touches or is blocked by
+ */
+export function drawObstacles(
+  ctx: CanvasRenderingContext2D,
+  obstacles: Obstacle[],
+  contactObstacles: number[] = []
+) {
+  ctx.save();
+  ctx.lineWidth = 2;
+
+  obstacles.forEach((obstacle, index) => {
+    const inContact = contactObstacles.includes(index);
+    ctx.fillStyle = inContact ? COLLISION_CONFIG.contactFillColor : COLLISION_CONFIG.fillColor;
+    ctx.strokeStyle = inContact ? COLLISION_CONFIG.contactColor : COLLISION_CONFIG.strokeColor;
+
+    ctx.beginPath();
+    if (obstacle.shape === 'circle') {
+      ctx.arc(obstacle.center.x, obstacle.center.y, obstacle.radius, 0, Math.PI * 2);
+    } else if (obstacle.shape === 'rectangle') {
+      ctx.rect(obstacle.x, obstacle.y, obstacle.width, obstacle.height);
+    } else {
+      obstacle.points.forEach((point, i) => {
+        if (i === 0) ctx.moveTo(point.x, point.y);
+        else ctx.lineTo(point.x, point.y);
+      });
+      ctx.closePath();
+    }
+    ctx.fill();
+    ctx.stroke();
+  });
+
+  ctx.restore();
 }
 
+/**
+ * Draw waypoints, labelled A, B, C... in their listed order
+ * Hit waypoints are filled with a check mark, the ones that can be hit next are highlighted,
+ * and the rest are dashed.
+ * @param hits - Hit timestamp of each waypoint (null until hit)
+ * @param pending - Indices of the waypoints that can be hit next
+ */
+export function drawWaypoints(
+  ctx: CanvasRenderingContext2D,
+  waypoints: Waypoint[],
+  hits: (number | null)[],
+  pending: number[]
+) {
+  ctx.save();
+  ctx.font = 'bold 12px sans-serif';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+
+  waypoints.forEach((waypoint, index) => {
+    const { x, y } = waypoint.position;
+    const radius = getWaypointRadius(waypoint);
+    const isHit = hits[index] !== null && hits[index] !== undefined;
+    const isNext = pending.includes(index);
+    const color = isHit ? COLORS.success : isNext ? COLORS.primary : COLORS.textLight;
+
+    ctx.strokeStyle = color;
+    ctx.lineWidth = isNext ? 3 : 2;
+    ctx.setLineDash(isHit || isNext ? [] : [4, 4]);
+    ctx.fillStyle = isHit ? 'rgba(16, 185, 129, 0.25)' : isNext ? 'rgba(37, 99, 235, 0.1)' : 'transparent';
+    ctx.beginPath();
+    ctx.arc(x, y, radius, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.stroke();
+    ctx.setLineDash([]);
+
+    if (isHit) {
+      // Check mark
+      ctx.lineWidth = 2.5;
+      ctx.beginPath();
+      ctx.moveTo(x - radius * 0.4, y);
+      ctx.lineTo(x - radius * 0.1, y + radius * 0.3);
+      ctx.lineTo(x + radius * 0.45, y - radius * 0.35);
+      ctx.stroke();
+    }
+
+    // Label outside the circle so it stays readable under the arm
+    ctx.fillStyle = color;
+    ctx.fillText(String.fromCharCode(65 + index), x, y - radius - 9);
+  });
 
-export function drawTarget(ctx: CanvasRenderingContext2D, target: Vector2D) {
+  ctx.restore();
+}
+
+export function drawTarget(
+  ctx: CanvasRenderingContext2D,
+  target: Vector2D,
+  radius: number = TARGET_CONFIG.radius
+) {
   // Outer glow
   ctx.save();
   ctx.shadowColor = COLORS.target;
@@ -68,7 +218,7 @@ export function drawTarget(ctx: CanvasRenderingContext2D, target: Vector2D) {
   ctx.lineWidth = 4;
   ctx.fillStyle = 'rgba(16, 185, 129, 0.1)';
   ctx.beginPath();
-  ctx.arc(target.x, target.y, TARGET_CONFIG.radius, 0, Math.PI * 2);
+  ctx.arc(target.x, target.y, radius, 0, Math.PI * 2);
   ctx.fill();
   ctx.stroke();
 
@@ -79,13 +229,13 @@ export function drawTarget(ctx: CanvasRenderingContext2D, target: Vector2D) {
   ctx.lineWidth = 2;
   ctx.globalAlpha = 0.6;
   ctx.beginPath();
-  ctx.arc(target.x, target.y, TARGET_CONFIG.radius * 0.6, 0, Math.PI * 2);
+  ctx.arc(target.x, target.y, radius * 0.6, 0, Math.PI * 2);
   ctx.stroke();
 
   ctx.lineWidth = 1;
   ctx.globalAlpha = 0.4;
   ctx.beginPath();
-  ctx.arc(target.x, target.y, TARGET_CONFIG.radius * 0.3, 0, Math.PI * 2);
+  ctx.arc(target.x, target.y, radius * 0.3, 0, Math.PI * 2);
   ctx.stroke();
 
   ctx.globalAlpha = 1.0;
@@ -128,12 +278,26 @@ export function drawRecordingIndicator(ctx: CanvasRenderingContext2D) {
   ctx.fillText('REC', 45, 36);
 }
 
-export function drawTrajectoryPath(ctx: CanvasRenderingContext2D, frames: MotionFrame[]) {
+/**
+ * Live tracking error of the simulated controllers, in the corner the recording indicator uses
+ */
+export function drawTrackingError(ctx: CanvasRenderingContext2D, error: TrackingError) {
+  ctx.fillStyle = COLORS.text;
+  ctx.font = '14px sans-serif';
+  ctx.fillText(`Tracking error ${error.endEffectorError.toFixed(1)} px`, 22, 36);
+}
+
+export function drawTrajectoryPath(
+  ctx: CanvasRenderingContext2D,
+  frames: MotionFrame[],
+  color: string = COLORS.primary,
+  lineWidth: number = 4
+) {
   if (frames.length < 2) return;
 
   // Use a smooth curve with reduced point density for better rendering
-  ctx.strokeStyle = COLORS.primary;
-  ctx.lineWidth = 4;
+  ctx.strokeStyle = color;
+  ctx.lineWidth = lineWidth;
   ctx.globalAlpha = 0.6;
   ctx.lineCap = 'round';
   ctx.lineJoin = 'round';
@@ -169,6 +333,42 @@ export function drawTrajectoryPath(ctx: CanvasRenderingContext2D, frames: Motion
   ctx.globalAlpha = 1.0;
 }
 
+/**
+ * Draw a translucent stick-figure arm for an overlay trace
+ */
+export function drawGhostArm(
+  ctx: CanvasRenderingContext2D,
+  jointPositions: Vector2D[],
+  endEffector: Vector2D,
+  color: string
+) {
+  const points = [...jointPositions, endEffector];
+
+  ctx.save();
+  ctx.globalAlpha = OVERLAY_CONFIG.ghostAlpha;
+  ctx.strokeStyle = color;
+  ctx.fillStyle = color;
+  ctx.lineWidth = 6;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+
+  ctx.beginPath();
+  ctx.moveTo(points[0].x, points[0].y);
+  for (let i = 1; i < points.length; i++) {
+    ctx.lineTo(points[i].x, points[i].y);
+  }
+  ctx.stroke();
+
+  // Joints and end effector
+  points.forEach((point, i) => {
+    ctx.beginPath();
+    ctx.arc(point.x, point.y, i === points.length - 1 ? 7 : 5, 0, Math.PI * 2);
+    ctx.fill();
+  });
+
+  ctx.restore();
+}
+
 export function clearCanvas(ctx: CanvasRenderingContext2D) {
   // Use CSS variable for background color to support dark mode
   const bgColor = getComputedStyle(document.documentElement).getPropertyValue('--canvas-bg-color').trim() || COLORS.background;
@@ -313,7 +513,7 @@ function drawElbowJoint(ctx: CanvasRenderingContext2D, position: Vector2D) {
   ctx.strokeStyle = '#1e293b';
   ctx.lineWidth = 2;
   ctx.beginPath();
-  ctx.arc(position.x, position.y, 15, 0, Math.PI * 2);
+  ctx.arc(position.x, position.y, ELBOW_JOINT_RADIUS, 0, Math.PI * 2);
   ctx.fill();
   ctx.stroke();
 
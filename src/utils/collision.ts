@@ -0,0 +1,186 @@
+/**
+ * Collision detection between the arm and static obstacles
+ * Links are treated as capsules as thick as they are drawn; obstacles as circles,
+ * axis-aligned rectangles and simple polygons.
+ */
+
+import type { Vector2D, RobotArmConfig, Obstacle, ArmCollision, MotionFrame } from '../types';
+import { forwardKinematics, distanceToSegment } from './kinematics';
+import { getSegmentThickness } from './canvasRendering';
+import { COLLISION_CONFIG } from '../constants/config';
+
+/**
+ * Corners of a polygonal obstacle, in order
+ */
+export function getObstaclePolygon(obstacle: Exclude<Obstacle, { shape: 'circle' }>): Vector2D[] {
+  if (obstacle.shape === 'polygon') return obstacle.points;
+
+  const { x, y, width, height } = obstacle;
+  return [
+    { x, y },
+    { x: x + width, y },
+    { x: x + width, y: y + height },
+    { x, y: y + height }
+  ];
+}
+
+/**
+ * Whether a point is inside a polygon (even-odd rule)
+ */
+function isPointInPolygon(point: Vector2D, polygon: Vector2D[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > point.y) !== (b.y > point.y) &&
+      point.x < a.x + ((point.y - a.y) * (b.x - a.x)) / (b.y - a.y)) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Whether two line segments cross or touch
+ */
+function segmentsIntersect(p1: Vector2D, p2: Vector2D, q1: Vector2D, q2: Vector2D): boolean {
+  const cross = (o: Vector2D, a: Vector2D, b: Vector2D) =>
+    (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+
+  const d1 = cross(q1, q2, p1);
+  const d2 = cross(q1, q2, p2);
+  const d3 = cross(p1, p2, q1);
+  const d4 = cross(p1, p2, q2);
+
+  return ((d1 > 0) !== (d2 > 0) || d1 === 0 || d2 === 0) &&
+    ((d3 > 0) !== (d4 > 0) || d3 === 0 || d4 === 0);
+}
+
+/**
+ * Whether a thick segment (a capsule of the given half width) overlaps an obstacle
+ */
+export function segmentHitsObstacle(
+  start: Vector2D,
+  end: Vector2D,
+  halfWidth: number,
+  obstacle: Obstacle
+): boolean {
+  if (obstacle.shape === 'circle') {
+    return distanceToSegment(obstacle.center, start, end) <= obstacle.radius + halfWidth;
+  }
+
+  const polygon = getObstaclePolygon(obstacle);
+  if (isPointInPolygon(start, polygon) || isPointInPolygon(end, polygon)) return true;
+
+  for (let i = 0; i < polygon.length; i++) {
+    const a = polygon[i];
+    const b = polygon[(i + 1) % polygon.length];
+    if (segmentsIntersect(start, end, a, b)) return true;
+    // Closest approach of two non-crossing segments is at one of their endpoints
+    const gap = Math.min(
+      distanceToSegment(a, start, end),
+      distanceToSegment(b, start, end),
+      distanceToSegment(start, a, b),
+      distanceToSegment(end, a, b)
+    );
+    if (gap <= halfWidth) return true;
+  }
+
+  return false;
+}
+
+/**
+ * Every link/obstacle pair in contact for an arm pose
+ * Ordered by link, base to tip, then by obstacle
+ */
+export function getArmCollisions(config: RobotArmConfig, obstacles: Obstacle[]): ArmCollision[] {
+  if (obstacles.length === 0) return [];
+
+  const { jointPositions, endEffectorPosition } = forwardKinematics(config);
+  const points = [...jointPositions, endEffectorPosition];
+  const collisions: ArmCollision[] = [];
+
+  for (let link = 0; link < points.length - 1; link++) {
+    const halfWidth = getSegmentThickness(link) / 2;
+    obstacles.forEach((obstacle, index) => {
+      if (segmentHitsObstacle(points[link], points[link + 1], halfWidth, obstacle)) {
+        collisions.push({ link, obstacle: index });
+      }
+    });
+  }
+
+  return collisions;
+}
+
+/**
+ * Sweep a move of the arm to new joint angles for the collisions it would cause
+ * The joints are interpolated in steps small enough that no point of the arm travels more
+ * than COLLISION_CONFIG.sweepStepPx between checks, so a fast move cannot pass through a
+ * thin obstacle. Contacts the current pose already has are not counted, so an arm that
+ * starts inside an obstacle (or was let into one) can always move out of it.
+ *
+ * @returns The furthest pose reached before the first new contact (the new joint angles
+ * when the move is free) and the contacts that stopped it (empty when the move is free)
+ */
+export function sweepArmMove(
+  config: RobotArmConfig,
+  jointAngles: number[],
+  obstacles: Obstacle[]
+): { jointAngles: number[]; collisions: ArmCollision[] } {
+  if (obstacles.length === 0) return { jointAngles, collisions: [] };
+
+  const current = getArmCollisions(config, obstacles);
+  const start = config.jointAngles;
+
+  // Turning a joint moves the arm beyond it by at most the angle times its reach
+  let travel = 0;
+  start.forEach((angle, joint) => {
+    const reach = config.linkLengths.slice(joint).reduce((sum, length) => sum + length, 0);
+    travel += Math.abs((jointAngles[joint] ?? angle) - angle) * reach;
+  });
+  const steps = Math.min(
+    COLLISION_CONFIG.maxSweepSteps,
+    Math.max(1, Math.ceil(travel / COLLISION_CONFIG.sweepStepPx))
+  );
+
+  let reached = start;
+  for (let step = 1; step <= steps; step++) {
+    const pose = step === steps
+      ? jointAngles
+      : start.map((angle, joint) => angle + ((jointAngles[joint] ?? angle) - angle) * (step / steps));
+    const collisions = getArmCollisions({ ...config, jointAngles: pose }, obstacles).filter(collision =>
+      !current.some(c => c.link === collision.link && c.obstacle === collision.obstacle)
+    );
+    if (collisions.length > 0) return { jointAngles: reached, collisions };
+    reached = pose;
+  }
+
+  return { jointAngles, collisions: [] };
+}
+
+/**
+ * Links involved in a set of collisions, base to tip without duplicates
+ */
+export function getCollidingLinks(collisions: ArmCollision[]): number[] {
+  return [...new Set(collisions.map(collision => collision.link))];
+}
+
+/**
+ * Number of separate contacts in a recorded trajectory
+ * A contact starts on a frame that touches or is blocked by an obstacle when the previous
+ * frame did not.
+ *
+ * @returns The count, or null when the trajectory was recorded without obstacles
+ */
+export function countCollisions(frames: MotionFrame[]): number | null {
+  if (!frames.some(frame => frame.collision)) return null;
+
+  let count = 0;
+  let wasInContact = false;
+  for (const frame of frames) {
+    const inContact = !!frame.collision && (frame.collision.blocked || frame.collision.links.length > 0);
+    if (inContact && !wasInContact) count++;
+    wasInContact = inContact;
+  }
+  return count;
+}
@@ -0,0 +1,242 @@
+/**
+ * Simulated joint controller utilities
+ * Execute a recorded motion the way a real arm would: a PID controller per joint tracks
+ * the recorded joint angles, its torque is saturated at the motor limits, and the arm moves
+ * by forward dynamics under velocity and acceleration limits.
+ *
+ * The simulation always advances in fixed steps (CONTROLLER_CONFIG.timestepMs) of
+ * recording time, whatever rate it is driven at, so a run is reproducible.
+ */
+
+import type {
+  MotionFrame,
+  MotionTrajectory,
+  RobotArmConfig,
+  JointLimit,
+  ControllerParameters,
+  ControllerState,
+  TrackingError,
+  TrackingReport
+} from '../types';
+import { forwardKinematics, distance, clampToJointLimit, normalizeAngle, robotConfigFromFrame } from './kinematics';
+import { getFramePositionAtTime, interpolateJointAngles } from './playback';
+import { getDynamicsParameters, forwardDynamics } from './dynamics';
+import { CONTROLLER_CONFIG } from '../constants/config';
+
+/**
+ * Per-joint value of a gain list whose last entry repeats for longer arms
+ */
+function getJointValues(values: readonly number[], jointCount: number): number[] {
+  return Array.from({ length: jointCount }, (_, joint) => values[Math.min(joint, values.length - 1)]);
+}
+
+function clamp(value: number, limit: number): number {
+  return Math.max(-limit, Math.min(limit, value));
+}
+
+/**
+ * Controller gains and limits for an arm (see CONTROLLER_CONFIG and DYNAMICS_CONFIG)
+ *
+ * @param linkLengths - Link lengths in pixels, base to tip
+ */
+export function getControllerParameters(linkLengths: number[]): ControllerParameters {
+  const jointCount = linkLengths.length;
+  return {
+    kp: getJointValues(CONTROLLER_CONFIG.kp, jointCount),
+    ki: getJointValues(CONTROLLER_CONFIG.ki, jointCount),
+    kd: getJointValues(CONTROLLER_CONFIG.kd, jointCount),
+    maxIntegral: CONTROLLER_CONFIG.maxIntegral,
+    maxVelocity: CONTROLLER_CONFIG.maxVelocity,
+    maxAcceleration: CONTROLLER_CONFIG.maxAcceleration,
+    timestepMs: CONTROLLER_CONFIG.timestepMs,
+    dynamics: getDynamicsParameters(linkLengths)
+  };
+}
+
+/**
+ * Commanded joint angles and velocities at a recording time
+ * Angles are interpolated between the recorded frames; velocities are the central
+ * difference over one physics step, taking the short way around for each joint.
+ */
+export function getCommandedState(
+  frames: MotionFrame[],
+  timeMs: number,
+  timestepMs: number = CONTROLLER_CONFIG.timestepMs
+): { jointAngles: number[]; jointVelocities: number[] } {
+  const anglesAt = (t: number) => interpolateJointAngles(frames, getFramePositionAtTime(frames, t));
+  const jointAngles = anglesAt(timeMs);
+  const before = anglesAt(timeMs - timestepMs);
+  const after = anglesAt(timeMs + timestepMs);
+  const dt = (2 * timestepMs) / 1000;
+
+  return {
+    jointAngles,
+    jointVelocities: jointAngles.map((_, joint) => normalizeAngle(after[joint] - before[joint]) / dt)
+  };
+}
+
+/**
+ * Controller state at rest on the commanded pose
+ * Used when execution starts, and when playback jumps too far for the arm to follow
+ */
+export function createControllerState(frames: MotionFrame[], timeMs: number): ControllerState {
+  const { jointAngles } = getCommandedState(frames, timeMs);
+  return {
+    timeMs,
+    jointAngles: [...jointAngles],
+    jointVelocities: jointAngles.map(() => 0),
+    integralErrors: jointAngles.map(() => 0),
+    jointTorques: jointAngles.map(() => 0)
+  };
+}
+
+/**
+ * Advance the simulation by one fixed step
+ * PID torque → torque saturation → forward dynamics → acceleration and velocity
+ * saturation → semi-implicit Euler. A joint that runs into its limit stops there.
+ *
+ * @param commanded - Commanded joint angles and velocities at the end of the step
+ */
+export function stepController(
+  state: ControllerState,
+  commanded: { jointAngles: number[]; jointVelocities: number[] },
+  linkLengths: number[],
+  jointLimits: JointLimit[],
+  params: ControllerParameters
+): ControllerState {
+  const dt = params.timestepMs / 1000;
+  const { torqueLimits } = params.dynamics;
+
+  const errors = state.jointAngles.map((angle, joint) =>
+    normalizeAngle((commanded.jointAngles[joint] ?? angle) - angle)
+  );
+  const integralErrors = errors.map((error, joint) =>
+    clamp(state.integralErrors[joint] + error * dt, params.maxIntegral)
+  );
+
+  const jointTorques = errors.map((error, joint) => clamp(
+    params.kp[joint] * error +
+      params.ki[joint] * integralErrors[joint] +
+      params.kd[joint] * ((commanded.jointVelocities[joint] ?? 0) - state.jointVelocities[joint]),
+    torqueLimits[joint]
+  ));
+
+  const jointAccelerations = forwardDynamics(
+    linkLengths,
+    state.jointAngles,
+    state.jointVelocities,
+    jointTorques,
+    params.dynamics
+  ).map(acceleration => clamp(acceleration, params.maxAcceleration));
+
+  const jointVelocities = state.jointVelocities.map((velocity, joint) =>
+    clamp(velocity + jointAccelerations[joint] * dt, params.maxVelocity)
+  );
+  const jointAngles = state.jointAngles.map((angle, joint) => {
+    const next = angle + jointVelocities[joint] * dt;
+    const limited = clampToJointLimit(next, jointLimits[joint]);
+    if (limited !== next) jointVelocities[joint] = 0;
+    return limited;
+  });
+
+  return {
+    timeMs: state.timeMs + params.timestepMs,
+    jointAngles,
+    jointVelocities,
+    integralErrors,
+    jointTorques
+  };
+}
+
+/**
+ * Run the simulation forward in fixed steps up to a recording time
+ * Time left over (less than one step) is carried to the next call.
+ */
+export function advanceController(
+  state: ControllerState,
+  frames: MotionFrame[],
+  untilMs: number,
+  linkLengths: number[],
+  jointLimits: JointLimit[],
+  params: ControllerParameters
+): ControllerState {
+  let next = state;
+  while (next.timeMs + params.timestepMs <= untilMs) {
+    const commanded = getCommandedState(frames, next.timeMs + params.timestepMs, params.timestepMs);
+    next = stepController(next, commanded, linkLengths, jointLimits, params);
+  }
+  return next;
+}
+
+/**
+ * Tracking error between the commanded and the executed joint angles of an arm
+ */
+export function getTrackingError(
+  config: RobotArmConfig,
+  commandedAngles: number[],
+  executedAngles: number[]
+): TrackingError {
+  const commanded = forwardKinematics({ ...config, jointAngles: commandedAngles });
+  const executed = forwardKinematics({ ...config, jointAngles: executedAngles });
+
+  return {
+    jointErrors: commandedAngles.map((angle, joint) => normalizeAngle(angle - (executedAngles[joint] ?? angle))),
+    endEffectorError: distance(commanded.endEffectorPosition, executed.endEffectorPosition)
+  };
+}
+
+/**
+ * Execute a whole trajectory with the simulated controllers and summarize the tracking error
+ * The arm starts at rest on the first frame; errors are sampled at every physics step.
+ *
+ * @param trajectory - Recorded trajectory (link lengths are recovered from its joint positions)
+ * @param jointLimits - Limits of the arm that executes it
+ * @returns The report, or null when the trajectory has fewer than two frames
+ */
+export function simulateTrajectory(
+  trajectory: MotionTrajectory,
+  jointLimits: JointLimit[] = [],
+  params?: ControllerParameters
+): TrackingReport | null {
+  const frames = trajectory.frames;
+  if (frames.length < 2) return null;
+
+  const config = robotConfigFromFrame(frames[0], jointLimits);
+  const model = params ?? getControllerParameters(config.linkLengths);
+  const endMs = frames[frames.length - 1].timestamp;
+
+  const jointCount = config.linkLengths.length;
+  const sumSquares = new Array<number>(jointCount).fill(0);
+  const maxJointErrors = new Array<number>(jointCount).fill(0);
+  let endEffectorSumSquares = 0;
+  let maxEndEffectorError = 0;
+  let saturatedSteps = 0;
+  let steps = 0;
+
+  let state = createControllerState(frames, frames[0].timestamp);
+  while (state.timeMs + model.timestepMs <= endMs) {
+    const commanded = getCommandedState(frames, state.timeMs + model.timestepMs, model.timestepMs);
+    state = stepController(state, commanded, config.linkLengths, jointLimits, model);
+
+    const error = getTrackingError(config, commanded.jointAngles, state.jointAngles);
+    error.jointErrors.forEach((jointError, joint) => {
+      sumSquares[joint] += jointError * jointError;
+      maxJointErrors[joint] = Math.max(maxJointErrors[joint], Math.abs(jointError));
+    });
+    endEffectorSumSquares += error.endEffectorError * error.endEffectorError;
+    maxEndEffectorError = Math.max(maxEndEffectorError, error.endEffectorError);
+    if (state.jointTorques.some((torque, joint) => Math.abs(torque) >= model.dynamics.torqueLimits[joint])) {
+      saturatedSteps++;
+    }
+    steps++;
+  }
+
+  const count = Math.max(1, steps);
+  return {
+    rmsJointErrors: sumSquares.map(sum => Math.sqrt(sum / count)),
+    maxJointErrors,
+    rmsEndEffectorError: Math.sqrt(endEffectorSumSquares / count),
+    maxEndEffectorError,
+    saturatedFraction: saturatedSteps / count
+  };
+}
@@ -0,0 +1,117 @@
+/**
+ * Counterbalancing utilities
+ * Deterministic ordering schemes for assigning conditions and prompt orders
+ */
+
+/**
+ * Hash a string to an unsigned 32-bit integer (FNV-1a)
+ * Used to derive a stable seed from a participant ID
+ */
+export function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Seeded pseudo-random number generator (mulberry32)
+ * @returns Function producing numbers in [0, 1)
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Shuffle an array in place (Fisher-Yates)
+ * @param random - Source of random numbers in [0, 1) (Math.random or a seeded generator)
+ */
+export function shuffle<T>(items: T[], random: () => number = Math.random): T[] {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+}
+
+/**
+ * Number of rows in a balanced Latin square of size n
+ * Even sizes need n rows; odd sizes need 2n (each row plus its mirror)
+ */
+export function balancedLatinSquareRowCount(n: number): number {
+  return n % 2 === 0 ? n : 2 * n;
+}
+
+/**
+ * One row of a balanced Latin square (Williams design)
+ * Every condition appears once in each position and, over all rows, directly
+ * follows every other condition equally often.
+ *
+ * @param n - Number of conditions
+ * @param row - Row index (taken modulo the row count)
+ * @returns Condition indices in presentation order
+ */
+export function balancedLatinSquareRow(n: number, row: number): number[] {
+  const rowIndex = row % balancedLatinSquareRowCount(n);
+  const result: number[] = [];
+
+  // First row follows 0, 1, n-1, 2, n-2, ...; later rows shift it by the row index
+  for (let i = 0, low = 0, high = 0; i < n; i++) {
+    let value: number;
+    if (i < 2 || i % 2 !== 0) {
+      value = low++;
+    } else {
+      value = n - high - 1;
+      high++;
+    }
+    result.push((value + rowIndex) % n);
+  }
+
+  // Odd sizes: every second row is mirrored to balance carry-over effects
+  if (n % 2 !== 0 && rowIndex % 2 !== 0) {
+    result.reverse();
+  }
+
+  return result;
+}
+
+/**
+ * Number of permutations of n items (n!)
+ */
+export function permutationCount(n: number): number {
+  let count = 1;
+  for (let i = 2; i <= n; i++) count *= i;
+  return count;
+}
+
+/**
+ * The k-th permutation of n items in lexicographic order (factorial number system)
+ * Used for full counterbalancing, where each participant gets a different permutation
+ *
+ * @param n - Number of items
+ * @param k - Permutation index (taken modulo n!)
+ * @returns Item indices in presentation order
+ */
+export function nthPermutation(n: number, k: number): number[] {
+  const remaining = Array.from({ length: n }, (_, i) => i);
+  const result: number[] = [];
+  let index = k % permutationCount(n);
+
+  for (let i = n; i > 0; i--) {
+    const blockSize = permutationCount(i - 1);
+    const position = Math.floor(index / blockSize);
+    index %= blockSize;
+    result.push(remaining.splice(position, 1)[0]);
+  }
+
+  return result;
+}
@@ -3,29 +3,240 @@
  */
 
 import JSZip from 'jszip';
-import type { MotionTrajectory, TrajectoryCSVData, SessionCSVData } from '../types';
+import type {
+  MotionTrajectory,
+  MotionFrame,
+  TrajectoryCSVData,
+  SessionCSVData,
+  FeaturesCSVData,
+  Vector2D,
+  ExportOptions,
+  SessionAssignment,
+  PromptType,
+  ReviewSession,
+  ReviewTrial,
+  PointerInput,
+  ArmControl,
+  FrameCollision,
+  TargetPose
+} from '../types';
+import { SHOULDER_POSITION } from '../constants/config';
+import { computeTrajectoryDerivatives } from './derivatives';
+import { computeTrajectoryDynamics } from './dynamics';
+import { computeEffortFeatures } from './effortAnalysis';
+import { resampleTrajectory } from './resampling';
+import { countCollisions } from './collision';
+
+/**
+ * Write the raw pointer input columns of a row (empty when the frame has no input)
+ */
+function addPointerInputColumns(row: TrajectoryCSVData, input: PointerInput | undefined): void {
+  row.pointerX = input?.pointerPosition?.x ?? '';
+  row.pointerY = input?.pointerPosition?.y ?? '';
+  row.clampedTargetX = input?.clampedTarget?.x ?? '';
+  row.clampedTargetY = input?.clampedTarget?.y ?? '';
+  row.pointerClamped = input?.clamped ?? '';
+  row.pointerType = input?.pointerType ?? '';
+  row.pointerPressure = input?.pressure ?? '';
+  row.pointerTiltX = input?.tiltX ?? '';
+  row.pointerTiltY = input?.tiltY ?? '';
+  row.pointerButtons = input?.buttons ?? '';
+  row.isFollowing = input?.isFollowing ?? '';
+}
+
+/**
+ * Write the control mode columns of a row (empty when the frame has no control mode)
+ */
+function addControlColumns(row: TrajectoryCSVData, control: ArmControl | undefined): void {
+  row.controlMode = control?.mode ?? '';
+  row.controlledJoint = control?.joint ?? '';
+}
+
+/**
+ * Write the obstacle contact columns of a row (empty when the frame has no collision data)
+ * Colliding links are joined with semicolons, base to tip
+ */
+function addCollisionColumns(row: TrajectoryCSVData, collision: FrameCollision | undefined): void {
+  row.collision = collision ? collision.links.length > 0 : '';
+  row.collisionBlocked = collision?.blocked ?? '';
+  row.collidingLinks = collision?.links.join(';') ?? '';
+}
+
+/**
+ * Write the moving target columns of a row (empty when the frame has no target track)
+ */
+function addTargetColumns(row: TrajectoryCSVData, target: TargetPose | undefined): void {
+  row.targetX = target?.position.x ?? '';
+  row.targetY = target?.position.y ?? '';
+  row.targetRadius = target?.radius ?? '';
+}
 
 /**
  * Convert motion trajectory to CSV data rows
+ * Writes one jointNAngle column per joint and one jointNX/jointNY pair per joint position,
+ * plus optional velocity/acceleration/jerk and torque/power columns. When resampling, rows are on a
+ * uniform time grid and a synthesized column marks the interpolated ones.
+ * Pointer input, control mode, collision and moving target columns are added when the
+ * trajectory was recorded with them.
  */
 function trajectoryToCSVData(
-  trajectory: MotionTrajectory,
+  recorded: MotionTrajectory,
   participantId: string,
-  sessionId: string
+  sessionId: string,
+  options: ExportOptions = {}
 ): TrajectoryCSVData[] {
-  return trajectory.frames.map((frame, index) => ({
+  const rateHz = options.resampleRateHz;
+  const trajectory = rateHz != null ? resampleTrajectory(recorded, rateHz) : recorded;
+  const derivatives = options.includeDerivatives ? computeTrajectoryDerivatives(trajectory) : null;
+  const dynamics = options.includeDynamics ? computeTrajectoryDynamics(trajectory) : null;
+  const hasInput = trajectory.frames.some(frame => frame.input);
+  const hasControl = trajectory.frames.some(frame => frame.control);
+  const hasCollision = trajectory.frames.some(frame => frame.collision);
+  const hasTarget = trajectory.frames.some(frame => frame.target);
+
+  return trajectory.frames.map((frame, index) => {
+    const row: TrajectoryCSVData = {
+      participantId,
+      sessionId,
+      promptType: trajectory.promptType,
+      promptText: trajectory.promptText,
+      frameIndex: index,
+      timestamp: frame.timestamp,
+      endEffectorX: frame.endEffectorPosition.x,
+      endEffectorY: frame.endEffectorPosition.y
+    };
+
+    frame.jointAngles.forEach((angle, joint) => {
+      row[`joint${joint}Angle`] = angle;
+    });
+    frame.jointPositions.forEach((position, joint) => {
+      row[`joint${joint}X`] = position.x;
+      row[`joint${joint}Y`] = position.y;
+    });
+
+    if (rateHz != null) {
+      row.synthesized = frame.synthesized ?? false;
+    }
+
+    if (hasInput) {
+      addPointerInputColumns(row, frame.input);
+    }
+
+    if (hasControl) {
+      addControlColumns(row, frame.control);
+    }
+
+    if (hasCollision) {
+      addCollisionColumns(row, frame.collision);
+    }
+
+    if (hasTarget) {
+      addTargetColumns(row, frame.target);
+    }
+
+    if (derivatives) {
+      const d = derivatives[index];
+      d.jointVelocities.forEach((value, joint) => {
+        row[`joint${joint}Velocity`] = value;
+      });
+      d.jointAccelerations.forEach((value, joint) => {
+        row[`joint${joint}Acceleration`] = value;
+      });
+      d.jointJerks.forEach((value, joint) => {
+        row[`joint${joint}Jerk`] = value;
+      });
+      row.endEffectorSpeed = d.endEffectorSpeed;
+      row.endEffectorAcceleration = d.endEffectorAcceleration;
+      row.endEffectorJerk = d.endEffectorJerk;
+    }
+
+    if (dynamics) {
+      const d = dynamics[index];
+      d.jointTorques.forEach((value, joint) => {
+        row[`joint${joint}Torque`] = value;
+      });
+      d.jointPowers.forEach((value, joint) => {
+        row[`joint${joint}Power`] = value;
+      });
+      row.totalPower = d.totalPower;
+      // Joints over their motor's torque limit, ';'-separated
+      row.torqueLimitExceeded = d.exceedsTorqueLimit.some(Boolean);
+      row.torqueLimitJoints = d.exceedsTorqueLimit
+        .map((exceeds, joint) => (exceeds ? joint : -1))
+        .filter(joint => joint >= 0)
+        .join(';');
+    }
+
+    return row;
+  });
+}
+
+/**
+ * Compute Laban Effort feature rows, one per trajectory
+ * Features that are undefined for a motion are empty cells: space for a path that ends
+ * where it started, straightness for a motion without movement, and pressureWeight
+ * without pen or touch pressure.
+ */
+function trajectoriesToFeaturesCSVData(
+  trajectories: MotionTrajectory[],
+  participantId: string,
+  sessionId: string,
+  promptSet: string
+): FeaturesCSVData[] {
+  return trajectories.map(traj => {
+    const features = computeEffortFeatures(traj);
+    return {
+      participantId,
+      sessionId,
+      promptSet,
+      promptType: traj.promptType,
+      promptText: traj.promptText,
+      ...features,
+      space: features.space ?? '',
+      straightness: features.straightness ?? '',
+      pressureWeight: features.pressureWeight ?? ''
+    };
+  });
+}
+
+/**
+ * Short prompt set marker used in file names (L/M for the Laban and metaphor sets)
+ */
+function getSetIndicator(promptSet?: string): string {
+  if (promptSet === 'metaphor') return 'M';
+  if (promptSet === 'laban') return 'L';
+  return promptSet ?? '';
+}
+
+/**
+ * Build session summary rows, one per trajectory
+ * Assignment columns are left empty when the assignment is unknown or not seeded
+ */
+function trajectoriesToSessionCSVData(
+  trajectories: MotionTrajectory[],
+  participantId: string,
+  sessionId: string,
+  promptSet: string,
+  assignment?: SessionAssignment
+): SessionCSVData[] {
+  return trajectories.map(traj => ({
     participantId,
     sessionId,
-    promptType: trajectory.promptType,
-    promptText: trajectory.promptText,
-    frameIndex: index,
-    timestamp: frame.timestamp,
-    shoulderAngle: frame.shoulderAngle,
-    elbowAngle: frame.elbowAngle,
-    endEffectorX: frame.endEffectorPosition.x,
-    endEffectorY: frame.endEffectorPosition.y,
-    elbowX: frame.elbowPosition.x,
-    elbowY: frame.elbowPosition.y
+    promptSet,
+    promptType: traj.promptType,
+    promptText: traj.promptText,
+    posePreset: traj.posePreset ?? '',
+    attemptCount: traj.attemptCount,
+    totalTimeMs: traj.totalTimeMs,
+    frameCount: traj.frames.length,
+    completed: traj.completed,
+    assignmentStrategy: assignment?.promptOrderStrategy ?? '',
+    promptSetStrategy: assignment?.promptSetStrategy ?? '',
+    assignmentSeed: assignment?.seed ?? '',
+    assignmentRow: assignment?.row ?? '',
+    mouseSensitivity: traj.mouseSensitivity ?? '',
+    collisionCount: countCollisions(traj.frames) ?? '',
+    waypointHits: (traj.waypointHits ?? []).map(hit => hit ?? '').join(';')
   }));
 }
 
@@ -61,13 +272,14 @@ export function exportTrajectoryCSV(
   trajectory: MotionTrajectory,
   participantId: string,
   sessionId: string,
-  promptSet?: 'laban' | 'metaphor'
+  promptSet?: string,
+  options: ExportOptions = {}
 ): void {
-  const csvData = trajectoryToCSVData(trajectory, participantId, sessionId);
+  const csvData = trajectoryToCSVData(trajectory, participantId, sessionId, options);
   const csvString = objectArrayToCSV(csvData as unknown as Array<Record<string, string | number | boolean>>);
 
   // Create filename with participant ID, M/L indicator, and prompt type
-  const setIndicator = promptSet === 'metaphor' ? 'M' : promptSet === 'laban' ? 'L' : '';
+  const setIndicator = getSetIndicator(promptSet);
   const filename = `trajectory_${participantId}_${setIndicator}_${trajectory.promptType}_${Date.now()}.csv`;
 
   downloadCSV(csvString, filename);
@@ -80,24 +292,15 @@ export function exportSessionCSV(
   trajectories: MotionTrajectory[],
   participantId: string,
   sessionId: string,
-  promptSet: 'laban' | 'metaphor'
+  promptSet: string,
+  assignment?: SessionAssignment
 ): void {
-  const csvData: SessionCSVData[] = trajectories.map(traj => ({
-    participantId,
-    sessionId,
-    promptSet,
-    promptType: traj.promptType,
-    promptText: traj.promptText,
-    attemptCount: traj.attemptCount,
-    totalTimeMs: traj.totalTimeMs,
-    frameCount: traj.frames.length,
-    completed: traj.completed
-  }));
+  const csvData = trajectoriesToSessionCSVData(trajectories, participantId, sessionId, promptSet, assignment);
 
   const csvString = objectArrayToCSV(csvData as unknown as Array<Record<string, string | number | boolean>>);
 
   // Add M/L indicator to session filename
-  const setIndicator = promptSet === 'metaphor' ? 'M' : 'L';
+  const setIndicator = getSetIndicator(promptSet);
   const filename = `session_${participantId}_${setIndicator}_${sessionId}_${Date.now()}.csv`;
 
   downloadCSV(csvString, filename);
@@ -110,10 +313,11 @@ export function exportAllTrajectories(
   trajectories: MotionTrajectory[],
   participantId: string,
   sessionId: string,
-  promptSet?: 'laban' | 'metaphor'
+  promptSet?: string,
+  options: ExportOptions = {}
 ): void {
   trajectories.forEach(trajectory => {
-    exportTrajectoryCSV(trajectory, participantId, sessionId, promptSet);
+    exportTrajectoryCSV(trajectory, participantId, sessionId, promptSet, options);
   });
 }
 
@@ -137,88 +341,252 @@ function downloadCSV(csvString: string, filename: string): void {
   URL.revokeObjectURL(url);
 }
 
+/**
+ * Parse CSV text into one record per row, keyed by header
+ * Handles the quoting written by objectArrayToCSV (quoted fields, doubled quotes)
+ */
+function parseCSV(text: string): Array<Record<string, string>> {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  row.push(field);
+  rows.push(row);
+
+  const [headers, ...dataRows] = rows.filter(values => values.some(value => value.trim() !== ''));
+  if (!headers) return [];
+
+  return dataRows.map(values => {
+    const record: Record<string, string> = {};
+    headers.forEach((header, i) => {
+      record[header] = values[i];
+    });
+    return record;
+  });
+}
+
+/**
+ * Parse trajectory CSV text back into a trajectory
+ * @returns The trajectory, or null if the CSV has no frames
+ */
+export function parseTrajectoryCSV(text: string): MotionTrajectory | null {
+  const rows = parseCSV(text);
+  if (rows.length === 0) return null;
+
+  // Extract trajectory metadata from first frame
+  const firstRow = rows[0];
+  const motionFrames = rows.map(parseMotionFrameRow);
+
+  return {
+    frames: motionFrames,
+    startPosition: motionFrames[0].endEffectorPosition,
+    targetPosition: motionFrames[motionFrames.length - 1].endEffectorPosition,
+    promptType: firstRow.promptType as PromptType,
+    promptText: firstRow.promptText,
+    completed: true,
+    attemptCount: 1,
+    totalTimeMs: motionFrames[motionFrames.length - 1].timestamp
+  };
+}
+
 /**
  * Parse CSV file to trajectory data
  */
 export async function importTrajectoryCSV(file: File): Promise<MotionTrajectory | null> {
-  return new Promise((resolve) => {
-    const reader = new FileReader();
-
-    reader.onload = (e) => {
-      const text = e.target?.result as string;
-      if (!text) {
-        resolve(null);
-        return;
-      }
+  try {
+    return parseTrajectoryCSV(await file.text());
+  } catch (error) {
+    console.error('Error parsing CSV:', error);
+    return null;
+  }
+}
 
-      try {
-        const lines = text.split('\n');
-        if (lines.length < 2) {
-          resolve(null);
-          return;
-        }
-
-        // Parse header
-        const headers = lines[0].split(',');
-
-        // Parse data rows
-        const frames = lines.slice(1)
-          .filter(line => line.trim())
-          .map(line => {
-            const values = line.split(',');
-            const row: Record<string, string> = {};
-            headers.forEach((header, i) => {
-              row[header] = values[i];
-            });
-            return row;
-          });
-
-        if (frames.length === 0) {
-          resolve(null);
-          return;
-        }
-
-        // Extract trajectory metadata from first frame
-        const firstFrame = frames[0];
-        const promptType = firstFrame.promptType as any;
-        const promptText = firstFrame.promptText;
-
-        // Convert to motion frames
-        const motionFrames = frames.map(frame => ({
-          timestamp: parseFloat(frame.timestamp),
-          shoulderAngle: parseFloat(frame.shoulderAngle),
-          elbowAngle: parseFloat(frame.elbowAngle),
-          endEffectorPosition: {
-            x: parseFloat(frame.endEffectorX),
-            y: parseFloat(frame.endEffectorY)
-          },
-          elbowPosition: {
-            x: parseFloat(frame.elbowX),
-            y: parseFloat(frame.elbowY)
-          }
-        }));
-
-        const trajectory: MotionTrajectory = {
-          frames: motionFrames,
-          startPosition: motionFrames[0].endEffectorPosition,
-          targetPosition: motionFrames[motionFrames.length - 1].endEffectorPosition,
-          promptType,
-          promptText,
-          completed: true,
-          attemptCount: 1,
-          totalTimeMs: motionFrames[motionFrames.length - 1].timestamp
-        };
-
-        resolve(trajectory);
-      } catch (error) {
-        console.error('Error parsing CSV:', error);
-        resolve(null);
+/**
+ * Load a ZIP written by exportAllDataAsZip for review
+ * Trials come from the session CSV; each is matched to its trajectory CSV by the
+ * filename exportAllDataAsZip gives it (repeated prompts carry a _2, _3, ... suffix)
+ *
+ * @param file - Exported ZIP
+ * @returns The session, with a null trajectory for trials whose CSV is missing
+ * @throws If the file is not a ZIP or contains no session CSV
+ */
+export async function importSessionZip(file: File): Promise<ReviewSession> {
+  const zip = await JSZip.loadAsync(await file.arrayBuffer());
+  const filenames = Object.keys(zip.files).filter(name => !zip.files[name].dir);
+
+  const sessionFilename = filenames.find(name => /(^|\/)session_[^/]*\.csv$/.test(name));
+  if (!sessionFilename) {
+    throw new Error(`${file.name}: no session CSV found`);
+  }
+
+  const sessionRows = parseCSV(await zip.files[sessionFilename].async('string'));
+  if (sessionRows.length === 0) {
+    throw new Error(`${file.name}: the session CSV is empty`);
+  }
+
+  const { participantId, sessionId, promptSet } = sessionRows[0];
+  const setIndicator = getSetIndicator(promptSet);
+  const promptCounts = new Map<string, number>();
+
+  const trials: ReviewTrial[] = [];
+  for (const row of sessionRows) {
+    const count = (promptCounts.get(row.promptType) ?? 0) + 1;
+    promptCounts.set(row.promptType, count);
+    const suffix = count > 1 ? `_${count}` : '';
+    const trajectoryName = `trajectory_${participantId}_${setIndicator}_${row.promptType}${suffix}.csv`;
+    const trajectoryFilename = filenames.find(name => name === trajectoryName || name.endsWith(`/${trajectoryName}`));
+
+    const trajectory = trajectoryFilename
+      ? parseTrajectoryCSV(await zip.files[trajectoryFilename].async('string'))
+      : null;
+
+    trials.push({
+      promptType: row.promptType as PromptType,
+      promptText: row.promptText,
+      posePreset: row.posePreset ?? '',
+      attemptCount: parseInt(row.attemptCount, 10) || 1,
+      totalTimeMs: parseFloat(row.totalTimeMs) || 0,
+      completed: row.completed === 'true',
+      trajectory: trajectory && {
+        ...trajectory,
+        promptText: row.promptText,
+        attemptCount: parseInt(row.attemptCount, 10) || 1,
+        posePreset: row.posePreset || undefined,
+        mouseSensitivity: row.mouseSensitivity ? parseFloat(row.mouseSensitivity) : undefined,
+        waypointHits: row.waypointHits
+          ? row.waypointHits.split(';').map(hit => (hit === '' ? null : parseFloat(hit)))
+          : undefined
       }
+    });
+  }
+
+  return { sourceFile: file.name, participantId, sessionId, promptSet, trials };
+}
+
+/**
+ * Read the raw pointer input columns of a parsed CSV row
+ */
+function parsePointerInputColumns(row: Record<string, string>): PointerInput {
+  const parsePoint = (x: string, y: string): Vector2D | null =>
+    x === '' || y === '' ? null : { x: parseFloat(x), y: parseFloat(y) };
+
+  return {
+    pointerPosition: parsePoint(row.pointerX, row.pointerY),
+    clampedTarget: parsePoint(row.clampedTargetX, row.clampedTargetY),
+    clamped: row.pointerClamped === 'true',
+    pointerType: row.pointerType,
+    pressure: parseFloat(row.pointerPressure),
+    // Absent in exports from before tilt was recorded
+    tiltX: parseFloat(row.pointerTiltX ?? '0'),
+    tiltY: parseFloat(row.pointerTiltY ?? '0'),
+    buttons: parseInt(row.pointerButtons, 10),
+    isFollowing: row.isFollowing === 'true'
+  };
+}
+
+/**
+ * Convert one parsed CSV row back into a motion frame
+ * Also accepts the older two-link format (shoulderAngle/elbowAngle/elbowX/elbowY)
+ */
+function parseMotionFrameRow(row: Record<string, string>): MotionFrame {
+  const endEffectorPosition: Vector2D = {
+    x: parseFloat(row.endEffectorX),
+    y: parseFloat(row.endEffectorY)
+  };
+
+  if (row.joint0Angle === undefined) {
+    return {
+      timestamp: parseFloat(row.timestamp),
+      jointAngles: [parseFloat(row.shoulderAngle), parseFloat(row.elbowAngle)],
+      endEffectorPosition,
+      // The legacy format did not store the shoulder, which was always at SHOULDER_POSITION
+      jointPositions: [
+        SHOULDER_POSITION,
+        { x: parseFloat(row.elbowX), y: parseFloat(row.elbowY) }
+      ]
     };
+  }
 
-    reader.onerror = () => resolve(null);
-    reader.readAsText(file);
-  });
+  const jointAngles: number[] = [];
+  const jointPositions: Vector2D[] = [];
+  for (let joint = 0; row[`joint${joint}Angle`] !== undefined; joint++) {
+    jointAngles.push(parseFloat(row[`joint${joint}Angle`]));
+    jointPositions.push({
+      x: parseFloat(row[`joint${joint}X`]),
+      y: parseFloat(row[`joint${joint}Y`])
+    });
+  }
+
+  const frame: MotionFrame = {
+    timestamp: parseFloat(row.timestamp),
+    jointAngles,
+    endEffectorPosition,
+    jointPositions
+  };
+
+  // Only present in resampled exports
+  if (row.synthesized !== undefined) {
+    frame.synthesized = row.synthesized === 'true';
+  }
+
+  // Only present for recordings with pointer input
+  if (row.pointerType !== undefined && row.isFollowing !== '') {
+    frame.input = parsePointerInputColumns(row);
+  }
+
+  // Only present for recordings with a control mode
+  if (row.controlMode === 'end-effector' || row.controlMode === 'joint') {
+    frame.control = {
+      mode: row.controlMode,
+      joint: row.controlledJoint ? parseInt(row.controlledJoint, 10) : null
+    };
+  }
+
+  // Only present for moving-target scenes
+  if (row.targetX !== undefined && row.targetX !== '') {
+    frame.target = {
+      position: { x: parseFloat(row.targetX), y: parseFloat(row.targetY) },
+      radius: parseFloat(row.targetRadius)
+    };
+  }
+
+  // Only present for recordings with obstacles
+  if (row.collisionBlocked !== undefined && row.collisionBlocked !== '') {
+    frame.collision = {
+      links: row.collidingLinks ? row.collidingLinks.split(';').map(link => parseInt(link, 10)) : [],
+      blocked: row.collisionBlocked === 'true'
+    };
+  }
+
+  return frame;
 }
 
 /**
@@ -238,48 +606,66 @@ export function generateRandomParticipantId(): string {
 }
 
 /**
- * Export all data as a ZIP file containing session CSV and all trajectory CSVs
+ * Build the session ZIP containing session CSV, Effort features CSV and all trajectory CSVs
+ * @returns The archive and its suggested filename
  */
-export async function exportAllDataAsZip(
+export async function buildSessionZip(
   trajectories: MotionTrajectory[],
   participantId: string,
   sessionId: string,
-  promptSet: 'laban' | 'metaphor'
-): Promise<void> {
+  promptSet: string,
+  assignment?: SessionAssignment,
+  options: ExportOptions = {}
+): Promise<{ blob: Blob; filename: string }> {
   const zip = new JSZip();
-  const setIndicator = promptSet === 'metaphor' ? 'M' : 'L';
+  const setIndicator = getSetIndicator(promptSet);
 
   // Add session summary CSV
-  const sessionCsvData: SessionCSVData[] = trajectories.map(traj => ({
-    participantId,
-    sessionId,
-    promptSet,
-    promptType: traj.promptType,
-    promptText: traj.promptText,
-    attemptCount: traj.attemptCount,
-    totalTimeMs: traj.totalTimeMs,
-    frameCount: traj.frames.length,
-    completed: traj.completed
-  }));
+  const sessionCsvData = trajectoriesToSessionCSVData(trajectories, participantId, sessionId, promptSet, assignment);
   const sessionCsvString = objectArrayToCSV(sessionCsvData as unknown as Array<Record<string, string | number | boolean>>);
   const sessionFilename = `session_${participantId}_${setIndicator}_${sessionId}.csv`;
   zip.file(sessionFilename, sessionCsvString);
 
-  // Add individual trajectory CSVs
+  // Add Laban Effort features CSV
+  const featuresCsvData = trajectoriesToFeaturesCSVData(trajectories, participantId, sessionId, promptSet);
+  const featuresCsvString = objectArrayToCSV(featuresCsvData as unknown as Array<Record<string, string | number | boolean>>);
+  zip.file(`features_${participantId}_${setIndicator}_${sessionId}.csv`, featuresCsvString);
+
+  // Add individual trajectory CSVs (repeated prompts get a _2, _3, ... suffix)
+  const promptCounts = new Map<string, number>();
   trajectories.forEach((trajectory) => {
-    const csvData = trajectoryToCSVData(trajectory, participantId, sessionId);
+    const csvData = trajectoryToCSVData(trajectory, participantId, sessionId, options);
     const csvString = objectArrayToCSV(csvData as unknown as Array<Record<string, string | number | boolean>>);
-    const filename = `trajectory_${participantId}_${setIndicator}_${trajectory.promptType}.csv`;
+    const count = (promptCounts.get(trajectory.promptType) ?? 0) + 1;
+    promptCounts.set(trajectory.promptType, count);
+    const suffix = count > 1 ? `_${count}` : '';
+    const filename = `trajectory_${participantId}_${setIndicator}_${trajectory.promptType}${suffix}.csv`;
     zip.file(filename, csvString);
   });
 
+  const blob = await zip.generateAsync({ type: 'blob' });
+  return { blob, filename: `robot_arm_data_${participantId}_${setIndicator}_${Date.now()}.zip` };
+}
+
+/**
+ * Export all data as a ZIP file download (see buildSessionZip)
+ */
+export async function exportAllDataAsZip(
+  trajectories: MotionTrajectory[],
+  participantId: string,
+  sessionId: string,
+  promptSet: string,
+  assignment?: SessionAssignment,
+  options: ExportOptions = {}
+): Promise<void> {
   // Generate and download ZIP file
   try {
-    const blob = await zip.generateAsync({ type: 'blob' });
+    const { blob, filename: zipFilename } = await buildSessionZip(
+      trajectories, participantId, sessionId, promptSet, assignment, options
+    );
     const link = document.createElement('a');
     const url = URL.createObjectURL(blob);
 
-    const zipFilename = `robot_arm_data_${participantId}_${setIndicator}_${Date.now()}.zip`;
     link.setAttribute('href', url);
     link.setAttribute('download', zipFilename);
     link.style.visibility = 'hidden';
@@ -0,0 +1,55 @@
+/**
+ * IndexedDB access shared by session persistence and the upload queue
+ */
+
+import { PERSISTENCE_CONFIG } from '../constants/config';
+
+/**
+ * Open the application database, creating missing object stores on upgrade
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+
+    const request = indexedDB.open(PERSISTENCE_CONFIG.databaseName, PERSISTENCE_CONFIG.databaseVersion);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      for (const storeName of [PERSISTENCE_CONFIG.sessionStoreName, PERSISTENCE_CONFIG.uploadStoreName]) {
+        if (!db.objectStoreNames.contains(storeName)) {
+          db.createObjectStore(storeName);
+        }
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Run a single request against an object store and close the database afterwards
+ * Resolves once the transaction has committed
+ */
+export async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(storeName, mode);
+      const request = operation(transaction.objectStore(storeName));
+
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+}
@@ -0,0 +1,114 @@
+/**
+ * Kinematic derivative utilities
+ * Computes velocity, acceleration and jerk for recorded motion trajectories
+ *
+ * Frames are captured on requestAnimationFrame ticks where the pose changed, so the
+ * spacing between timestamps is uneven. All derivatives use finite differences
+ * for non-uniform grids instead of assuming a fixed frame interval.
+ */
+
+import type { MotionTrajectory, FrameDerivatives } from '../types';
+
+/**
+ * First derivative of a sampled signal on a non-uniform time grid
+ * Interior points use the three-point (second-order) non-uniform central difference,
+ * end points use one-sided differences.
+ *
+ * @param values - Signal samples
+ * @param times - Sample times in seconds (non-decreasing)
+ * @returns Derivative at every sample
+ */
+export function differentiate(values: number[], times: number[]): number[] {
+  const n = values.length;
+  if (n < 2) return values.map(() => 0);
+
+  const result = new Array<number>(n);
+
+  for (let i = 0; i < n; i++) {
+    const h1 = i > 0 ? times[i] - times[i - 1] : 0;
+    const h2 = i < n - 1 ? times[i + 1] - times[i] : 0;
+
+    if (h1 > 0 && h2 > 0) {
+      // Non-uniform central difference
+      result[i] =
+        (-h2 / (h1 * (h1 + h2))) * values[i - 1] +
+        ((h2 - h1) / (h1 * h2)) * values[i] +
+        (h1 / (h2 * (h1 + h2))) * values[i + 1];
+    } else if (h2 > 0) {
+      // Forward difference (first sample, or duplicate timestamp behind)
+      result[i] = (values[i + 1] - values[i]) / h2;
+    } else if (h1 > 0) {
+      // Backward difference (last sample, or duplicate timestamp ahead)
+      result[i] = (values[i] - values[i - 1]) / h1;
+    } else {
+      result[i] = i > 0 ? result[i - 1] : 0;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Remove 2π jumps from a sequence of angles so it can be differentiated
+ */
+export function unwrapAngles(angles: number[]): number[] {
+  const result: number[] = [];
+  let offset = 0;
+
+  angles.forEach((angle, i) => {
+    if (i > 0) {
+      const delta = angle - angles[i - 1];
+      if (delta > Math.PI) offset -= 2 * Math.PI;
+      else if (delta < -Math.PI) offset += 2 * Math.PI;
+    }
+    result.push(angle + offset);
+  });
+
+  return result;
+}
+
+/**
+ * Compute per-frame velocity, acceleration and jerk for a trajectory
+ *
+ * @param trajectory - Recorded trajectory (timestamps in milliseconds)
+ * @returns One entry per frame, in the same order as trajectory.frames
+ */
+export function computeTrajectoryDerivatives(trajectory: MotionTrajectory): FrameDerivatives[] {
+  const frames = trajectory.frames;
+  if (frames.length === 0) return [];
+
+  const times = frames.map(frame => frame.timestamp / 1000);
+  const jointCount = frames[0].jointAngles.length;
+
+  // Joint space: differentiate each (unwrapped) joint angle three times
+  const jointVelocities: number[][] = [];
+  const jointAccelerations: number[][] = [];
+  const jointJerks: number[][] = [];
+
+  for (let joint = 0; joint < jointCount; joint++) {
+    const angles = unwrapAngles(frames.map(frame => frame.jointAngles[joint]));
+    const velocity = differentiate(angles, times);
+    const acceleration = differentiate(velocity, times);
+    jointVelocities.push(velocity);
+    jointAccelerations.push(acceleration);
+    jointJerks.push(differentiate(acceleration, times));
+  }
+
+  // Cartesian space: differentiate the end effector position per axis
+  const vx = differentiate(frames.map(frame => frame.endEffectorPosition.x), times);
+  const vy = differentiate(frames.map(frame => frame.endEffectorPosition.y), times);
+  const ax = differentiate(vx, times);
+  const ay = differentiate(vy, times);
+  const jx = differentiate(ax, times);
+  const jy = differentiate(ay, times);
+
+  return frames.map((_, i) => ({
+    jointVelocities: jointVelocities.map(values => values[i]),
+    jointAccelerations: jointAccelerations.map(values => values[i]),
+    jointJerks: jointJerks.map(values => values[i]),
+    endEffectorVelocity: { x: vx[i], y: vy[i] },
+    endEffectorSpeed: Math.hypot(vx[i], vy[i]),
+    endEffectorAcceleration: Math.hypot(ax[i], ay[i]),
+    endEffectorJerk: Math.hypot(jx[i], jy[i])
+  }));
+}
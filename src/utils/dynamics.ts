@@ -0,0 +1,204 @@
+/**
+ * Rigid-body dynamics utilities
+ * Inverse dynamics of the planar N-link arm: the joint torques needed to produce a
+ * recorded motion, given link masses, inertias, gravity and joint friction. Forward
+ * dynamics (the motion produced by given torques) is built on top of it.
+ *
+ * Everything is computed in the canvas frame (y down), scaled to meters. Angles, torques
+ * and the 2D cross product share that frame, so a positive torque turns a joint towards
+ * increasing angle, as in forwardKinematics.
+ */
+
+import type { Vector2D, MotionTrajectory, DynamicsParameters, FrameDynamics } from '../types';
+import { computeTrajectoryDerivatives } from './derivatives';
+import { solveLinearSystem } from './linearAlgebra';
+import { DYNAMICS_CONFIG } from '../constants/config';
+
+/**
+ * z component of the cross product of two planar vectors
+ */
+function cross(a: Vector2D, b: Vector2D): number {
+  return a.x * b.y - a.y * b.x;
+}
+
+/**
+ * Dynamics parameters of an arm modelled as uniform rods (see DYNAMICS_CONFIG)
+ *
+ * @param linkLengths - Link lengths in pixels, base to tip
+ */
+export function getDynamicsParameters(linkLengths: number[]): DynamicsParameters {
+  const { metersPerPixel, linkDensity, torqueLimits } = DYNAMICS_CONFIG;
+  const lengths = linkLengths.map(length => length * metersPerPixel);
+  const masses = lengths.map(length => length * linkDensity);
+
+  return {
+    metersPerPixel,
+    linkMasses: masses,
+    // Uniform rod about its centre: mL²/12
+    linkInertias: masses.map((mass, link) => (mass * lengths[link] * lengths[link]) / 12),
+    centerOfMassFractions: linkLengths.map(() => 0.5),
+    gravity: DYNAMICS_CONFIG.gravity,
+    viscousFriction: linkLengths.map(() => DYNAMICS_CONFIG.viscousFriction),
+    coulombFriction: linkLengths.map(() => DYNAMICS_CONFIG.coulombFriction),
+    torqueLimits: linkLengths.map((_, joint) => torqueLimits[Math.min(joint, torqueLimits.length - 1)])
+  };
+}
+
+/**
+ * Joint torques for one state of the arm (recursive Newton–Euler)
+ * A forward pass from the shoulder propagates link velocities and accelerations; a
+ * backward pass from the tip accumulates the forces and moments each joint must carry.
+ *
+ * @param linkLengths - Link lengths in pixels, base to tip
+ * @param jointAngles - Joint angles (rad), each relative to the previous link
+ * @param jointVelocities - Joint velocities (rad/s)
+ * @param jointAccelerations - Joint accelerations (rad/s²)
+ * @returns Torque (N·m) each joint motor applies, base to tip
+ */
+export function inverseDynamics(
+  linkLengths: number[],
+  jointAngles: number[],
+  jointVelocities: number[],
+  jointAccelerations: number[],
+  params: DynamicsParameters = getDynamicsParameters(linkLengths)
+): number[] {
+  const n = linkLengths.length;
+  const gravity: Vector2D = { x: 0, y: params.gravity };
+
+  // Forward pass: absolute angle, angular velocity and acceleration of each link, and the
+  // linear acceleration of its base joint and centre of mass
+  const links: { r: Vector2D; c: Vector2D; alpha: number; comAcceleration: Vector2D }[] = [];
+  let angle = 0;
+  let omega = 0;
+  let alpha = 0;
+  let jointAcceleration: Vector2D = { x: 0, y: 0 };
+
+  for (let i = 0; i < n; i++) {
+    angle += jointAngles[i] ?? 0;
+    omega += jointVelocities[i] ?? 0;
+    alpha += jointAccelerations[i] ?? 0;
+
+    const length = linkLengths[i] * params.metersPerPixel;
+    const r = { x: Math.cos(angle) * length, y: Math.sin(angle) * length };
+    const f = params.centerOfMassFractions[i];
+    const c = { x: r.x * f, y: r.y * f };
+
+    // a = a_joint + α × p − ω² p, for a point p on the link relative to its joint
+    const pointAcceleration = (p: Vector2D): Vector2D => ({
+      x: jointAcceleration.x - alpha * p.y - omega * omega * p.x,
+      y: jointAcceleration.y + alpha * p.x - omega * omega * p.y
+    });
+
+    links.push({ r, c, alpha, comAcceleration: pointAcceleration(c) });
+    jointAcceleration = pointAcceleration(r);
+  }
+
+  // Backward pass: force and moment passed from each link to the one before it
+  const torques = new Array<number>(n).fill(0);
+  let childForce: Vector2D = { x: 0, y: 0 };
+  let childTorque = 0;
+
+  for (let i = n - 1; i >= 0; i--) {
+    const { r, c, alpha: linkAlpha, comAcceleration } = links[i];
+    const mass = params.linkMasses[i];
+
+    // Net force on the link's mass, gravity included
+    const inertial = {
+      x: mass * (comAcceleration.x - gravity.x),
+      y: mass * (comAcceleration.y - gravity.y)
+    };
+
+    const torque = params.linkInertias[i] * linkAlpha +
+      childTorque +
+      cross(c, inertial) +
+      cross(r, childForce);
+
+    // The motor also overcomes joint friction
+    const velocity = jointVelocities[i] ?? 0;
+    const moving = Math.abs(velocity) > DYNAMICS_CONFIG.frictionVelocityThreshold;
+    torques[i] = torque +
+      params.viscousFriction[i] * velocity +
+      (moving ? params.coulombFriction[i] * Math.sign(velocity) : 0);
+
+    // Friction is internal to the joint, so only the rigid-body torque is passed on
+    childTorque = torque;
+    childForce = { x: inertial.x + childForce.x, y: inertial.y + childForce.y };
+  }
+
+  return torques;
+}
+
+/**
+ * Joint accelerations produced by motor torques (forward dynamics)
+ * Solves M(q)·q̈ = τ − b(q, q̇). The bias b (Coriolis, gravity, friction) is the inverse
+ * dynamics at zero acceleration; column j of the mass matrix M is the inverse dynamics of a
+ * unit acceleration of joint j with gravity and velocity removed.
+ *
+ * @param jointTorques - Torque (N·m) each joint motor applies, base to tip
+ * @returns Joint accelerations (rad/s²)
+ */
+export function forwardDynamics(
+  linkLengths: number[],
+  jointAngles: number[],
+  jointVelocities: number[],
+  jointTorques: number[],
+  params: DynamicsParameters = getDynamicsParameters(linkLengths)
+): number[] {
+  const n = linkLengths.length;
+  const zeros = new Array<number>(n).fill(0);
+
+  const bias = inverseDynamics(linkLengths, jointAngles, jointVelocities, zeros, params);
+
+  const inertial = { ...params, gravity: 0 };
+  const columns = zeros.map((_, j) =>
+    inverseDynamics(linkLengths, jointAngles, zeros, zeros.map((__, k) => (k === j ? 1 : 0)), inertial)
+  );
+  const massMatrix = zeros.map((_, i) => columns.map(column => column[i]));
+
+  return solveLinearSystem(massMatrix, jointTorques.map((torque, i) => torque - bias[i]));
+}
+
+/**
+ * Inverse dynamics of every frame of a trajectory
+ * Joint velocities and accelerations come from computeTrajectoryDerivatives; link lengths
+ * are recovered from the recorded joint positions.
+ *
+ * @param trajectory - Recorded trajectory
+ * @param params - Physical model (defaults to uniform rods from DYNAMICS_CONFIG)
+ * @returns One entry per frame, in the same order as trajectory.frames
+ */
+export function computeTrajectoryDynamics(
+  trajectory: MotionTrajectory,
+  params?: DynamicsParameters
+): FrameDynamics[] {
+  const frames = trajectory.frames;
+  if (frames.length === 0) return [];
+
+  const first = frames[0];
+  const points = [...first.jointPositions, first.endEffectorPosition];
+  const linkLengths = first.jointAngles.map((_, link) =>
+    Math.hypot(points[link + 1].x - points[link].x, points[link + 1].y - points[link].y)
+  );
+  const model = params ?? getDynamicsParameters(linkLengths);
+
+  const derivatives = computeTrajectoryDerivatives(trajectory);
+
+  return frames.map((frame, i) => {
+    const { jointVelocities, jointAccelerations } = derivatives[i];
+    const jointTorques = inverseDynamics(
+      linkLengths,
+      frame.jointAngles,
+      jointVelocities,
+      jointAccelerations,
+      model
+    );
+    const jointPowers = jointTorques.map((torque, joint) => torque * jointVelocities[joint]);
+
+    return {
+      jointTorques,
+      jointPowers,
+      totalPower: jointPowers.reduce((sum, power) => sum + power, 0),
+      exceedsTorqueLimit: jointTorques.map((torque, joint) => Math.abs(torque) > model.torqueLimits[joint])
+    };
+  });
+}
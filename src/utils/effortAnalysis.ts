@@ -0,0 +1,128 @@
+/**
+ * Laban Effort analysis utilities
+ * Computes the standard computational Effort descriptors for a recorded trajectory
+ *
+ * - Weight: peak kinetic energy of the moving points
+ * - Time: time-averaged acceleration magnitude
+ * - Space: path directness (path length over straight-line distance)
+ * - Flow: time-averaged jerk magnitude
+ *
+ * Pen and touch pressure is reported as a separate Weight channel (Strong–Light as
+ * pressed by the participant, rather than derived from the motion).
+ */
+
+import type { MotionTrajectory, EffortFeatures } from '../types';
+import { differentiate } from './derivatives';
+import { distance } from './kinematics';
+
+/**
+ * Time average of a sampled signal using trapezoidal integration
+ * Handles uneven sample spacing; falls back to the plain mean for a zero-length window
+ */
+function timeAverage(values: number[], times: number[]): number {
+  if (values.length === 0) return 0;
+
+  const duration = times[times.length - 1] - times[0];
+  if (duration <= 0) {
+    return values.reduce((sum, value) => sum + value, 0) / values.length;
+  }
+
+  let integral = 0;
+  for (let i = 1; i < values.length; i++) {
+    integral += ((values[i] + values[i - 1]) / 2) * (times[i] - times[i - 1]);
+  }
+  return integral / duration;
+}
+
+/**
+ * Time-averaged pressure of pen and touch input while dragging the arm
+ * Mice only report a fixed pressure, so motions without pen or touch samples have none
+ *
+ * @returns Mean pressure (0–1), or null without pressure input
+ */
+function computePressureWeight(trajectory: MotionTrajectory): number | null {
+  const pressed = trajectory.frames.filter(frame =>
+    frame.input &&
+    frame.input.isFollowing &&
+    frame.input.buttons !== 0 &&
+    (frame.input.pointerType === 'pen' || frame.input.pointerType === 'touch')
+  );
+  if (pressed.length === 0) return null;
+
+  return timeAverage(
+    pressed.map(frame => frame.input?.pressure ?? 0),
+    pressed.map(frame => frame.timestamp / 1000)
+  );
+}
+
+/**
+ * Compute Laban Effort descriptors for a trajectory
+ * Space and straightness are ratios of the path length and the straight-line distance; each
+ * is null where its denominator is zero (a closed path, or no movement at all).
+ *
+ * @param trajectory - Recorded trajectory (timestamps in milliseconds)
+ * @returns Effort features (zero, with null ratios, for trajectories with fewer than two frames)
+ */
+export function computeEffortFeatures(trajectory: MotionTrajectory): EffortFeatures {
+  const frames = trajectory.frames;
+
+  if (frames.length < 2) {
+    return {
+      weight: 0,
+      time: 0,
+      space: null,
+      flow: 0,
+      straightness: null,
+      pathLength: 0,
+      durationMs: 0,
+      pressureWeight: computePressureWeight(trajectory)
+    };
+  }
+
+  const times = frames.map(frame => frame.timestamp / 1000);
+
+  // Moving points: every joint after the shoulder, then the end effector
+  const pointTracks = [
+    ...frames[0].jointPositions.slice(1).map((_, joint) =>
+      frames.map(frame => frame.jointPositions[joint + 1])
+    ),
+    frames.map(frame => frame.endEffectorPosition)
+  ];
+
+  const kineticEnergy = new Array<number>(frames.length).fill(0);
+  const accelerationSum = new Array<number>(frames.length).fill(0);
+  const jerkSum = new Array<number>(frames.length).fill(0);
+
+  pointTracks.forEach(track => {
+    const vx = differentiate(track.map(p => p.x), times);
+    const vy = differentiate(track.map(p => p.y), times);
+    const ax = differentiate(vx, times);
+    const ay = differentiate(vy, times);
+    const jx = differentiate(ax, times);
+    const jy = differentiate(ay, times);
+
+    for (let i = 0; i < frames.length; i++) {
+      kineticEnergy[i] += 0.5 * (vx[i] * vx[i] + vy[i] * vy[i]);
+      accelerationSum[i] += Math.hypot(ax[i], ay[i]);
+      jerkSum[i] += Math.hypot(jx[i], jy[i]);
+    }
+  });
+
+  // Space: compare the end effector's travelled path with the straight line
+  let pathLength = 0;
+  for (let i = 1; i < frames.length; i++) {
+    pathLength += distance(frames[i - 1].endEffectorPosition, frames[i].endEffectorPosition);
+  }
+  const displacement = distance(frames[0].endEffectorPosition, frames[frames.length - 1].endEffectorPosition);
+
+  return {
+    weight: Math.max(...kineticEnergy),
+    time: timeAverage(accelerationSum, times),
+    space: displacement > 0 ? pathLength / displacement : null,
+    flow: timeAverage(jerkSum, times),
+    straightness: pathLength > 0 ? displacement / pathLength : null,
+    pathLength,
+    durationMs: frames[frames.length - 1].timestamp - frames[0].timestamp,
+    pressureWeight: computePressureWeight(trajectory)
+  };
+}
@@ -0,0 +1,277 @@
+/**
+ * Signal filters for trajectory smoothing
+ * Each filter smooths one sampled signal. Apart from the Gaussian, which weights
+ * neighbouring samples, they work on the sample times, so the uneven frame spacing of a
+ * recording (frames are only captured when the arm or the target moves) does not distort them.
+ *
+ * Times are in seconds, non-decreasing; samples may share a timestamp.
+ */
+
+import { solveLinearSystem, solveBandedSystem } from './linearAlgebra';
+
+// Shortest interval used where two samples share a timestamp (s)
+const MIN_INTERVAL = 1e-4;
+
+/**
+ * Gaussian-weighted average over neighbouring samples (3σ window)
+ *
+ * @param sigma - Standard deviation in samples
+ */
+export function gaussianFilter(values: number[], sigma: number): number[] {
+  const halfWindow = Math.ceil(sigma * 3);
+
+  return values.map((_, index) => {
+    const start = Math.max(0, index - halfWindow);
+    const end = Math.min(values.length - 1, index + halfWindow);
+    let sum = 0;
+    let weightSum = 0;
+
+    for (let i = start; i <= end; i++) {
+      const weight = Math.exp(-((i - index) ** 2) / (2 * sigma * sigma));
+      sum += values[i] * weight;
+      weightSum += weight;
+    }
+
+    return sum / weightSum;
+  });
+}
+
+/**
+ * Savitzky–Golay filter on uneven samples
+ * Fits a polynomial by least squares to the samples within half a window of each sample's
+ * time and takes its value there. Unlike an average, the fit follows peaks of the
+ * signal, so sudden movements keep their speed.
+ *
+ * @param windowSeconds - Width of the fitted window
+ * @param order - Polynomial degree (lowered where the window holds too few samples)
+ */
+export function savitzkyGolayFilter(
+  values: number[],
+  times: number[],
+  windowSeconds: number,
+  order: number
+): number[] {
+  const halfWindow = windowSeconds / 2;
+  let start = 0;
+  let end = 0;
+
+  return values.map((value, index) => {
+    const t = times[index];
+    while (times[start] < t - halfWindow) start++;
+    while (end + 1 < times.length && times[end + 1] <= t + halfWindow) end++;
+
+    const degree = Math.min(order, end - start);
+    if (degree < 1) return value;
+
+    // Normal equations in local time scaled to the window, for conditioning
+    const size = degree + 1;
+    const normal = Array.from({ length: size }, () => new Array<number>(size).fill(0));
+    const rhs = new Array<number>(size).fill(0);
+
+    for (let i = start; i <= end; i++) {
+      const x = (times[i] - t) / halfWindow;
+      const powers = [1];
+      for (let p = 1; p < 2 * size - 1; p++) powers.push(powers[p - 1] * x);
+      for (let row = 0; row < size; row++) {
+        rhs[row] += powers[row] * values[i];
+        for (let col = 0; col < size; col++) normal[row][col] += powers[row + col];
+      }
+    }
+
+    const coefficients = solveLinearSystem(normal, rhs);
+    return Number.isFinite(coefficients[0]) ? coefficients[0] : value;
+  });
+}
+
+/**
+ * Signal value at a time, interpolated linearly between samples
+ * Sweeps forward from a hint index, since the times are queried in order.
+ */
+function createSampler(values: number[], times: number[]): (t: number) => number {
+  let index = 0;
+  return (t: number) => {
+    while (index + 1 < times.length - 1 && times[index + 1] <= t) index++;
+    const next = Math.min(index + 1, times.length - 1);
+    const gap = times[next] - times[index];
+    if (gap <= 0) return values[next];
+    const fraction = Math.min(1, Math.max(0, (t - times[index]) / gap));
+    return values[index] + (values[next] - values[index]) * fraction;
+  };
+}
+
+/**
+ * Median of the positive intervals between samples (falls back to MIN_INTERVAL)
+ */
+function getTypicalInterval(times: number[]): number {
+  const intervals = times.slice(1).map((time, i) => time - times[i]).filter(interval => interval > 0);
+  if (intervals.length === 0) return MIN_INTERVAL;
+  intervals.sort((a, b) => a - b);
+  return intervals[Math.floor(intervals.length / 2)];
+}
+
+/**
+ * Zero-phase second-order Butterworth low-pass filter
+ * The signal is resampled on an even grid at its typical frame rate, padded at both ends
+ * by point reflection, filtered forwards and backwards (cancelling the phase lag and
+ * squaring the response) and sampled back at the original times.
+ *
+ * @param cutoffHz - −6 dB frequency of the forward–backward response
+ */
+export function butterworthFilter(values: number[], times: number[], cutoffHz: number): number[] {
+  if (values.length < 3) return [...values];
+
+  const step = getTypicalInterval(times);
+  const sampleRate = 1 / step;
+  const cutoff = Math.min(cutoffHz, 0.45 * sampleRate);
+
+  const sampler = createSampler(values, times);
+  const count = Math.floor((times[times.length - 1] - times[0]) / step) + 1;
+  const grid = Array.from({ length: count }, (_, i) => sampler(times[0] + i * step));
+  grid.push(values[values.length - 1]);
+
+  // Pad by one cutoff period, reflected about the end values so the ends do not jump
+  const pad = Math.min(grid.length - 1, Math.ceil(sampleRate / cutoff));
+  const first = grid[0];
+  const last = grid[grid.length - 1];
+  const padded = [
+    ...Array.from({ length: pad }, (_, i) => 2 * first - grid[pad - i]),
+    ...grid,
+    ...Array.from({ length: pad }, (_, i) => 2 * last - grid[grid.length - 2 - i])
+  ];
+
+  // Bilinear-transform coefficients
+  const k = Math.tan((Math.PI * cutoff) / sampleRate);
+  const norm = 1 / (1 + Math.SQRT2 * k + k * k);
+  const b0 = k * k * norm;
+  const b1 = 2 * b0;
+  const a1 = 2 * (k * k - 1) * norm;
+  const a2 = (1 - Math.SQRT2 * k + k * k) * norm;
+
+  // Direct form I, starting at rest on the first value
+  const runFilter = (input: number[]): number[] => {
+    let x1 = input[0];
+    let x2 = input[0];
+    let y1 = input[0];
+    let y2 = input[0];
+    return input.map(x => {
+      const y = b0 * x + b1 * x1 + b0 * x2 - a1 * y1 - a2 * y2;
+      x2 = x1;
+      x1 = x;
+      y2 = y1;
+      y1 = y;
+      return y;
+    });
+  };
+
+  const filtered = runFilter(runFilter(padded).reverse()).reverse().slice(pad, pad + grid.length);
+  const gridTimes = grid.map((_, i) => Math.min(times[0] + i * step, times[times.length - 1]));
+  gridTimes[gridTimes.length - 1] = times[times.length - 1];
+
+  const resample = createSampler(filtered, gridTimes);
+  return times.map(t => resample(t));
+}
+
+/**
+ * One-Euro filter (Casiez et al., 2012)
+ * A first-order low-pass whose cutoff rises with the signal's speed: still or slow
+ * stretches are smoothed strongly, fast movements are followed with little lag.
+ * It is causal, like the live input filters it comes from, so a slight lag remains.
+ *
+ * @param minCutoffHz - Cutoff when the signal is still
+ * @param beta - Cutoff increase per unit of speed (signal units per second)
+ * @param derivativeCutoffHz - Cutoff of the speed estimate
+ */
+export function oneEuroFilter(
+  values: number[],
+  times: number[],
+  minCutoffHz: number,
+  beta: number,
+  derivativeCutoffHz: number
+): number[] {
+  if (values.length === 0) return [];
+
+  const smoothing = (cutoffHz: number, dt: number) => {
+    const tau = 1 / (2 * Math.PI * cutoffHz);
+    return 1 / (1 + tau / dt);
+  };
+
+  const result = [values[0]];
+  let previous = values[0];
+  let derivative = 0;
+
+  for (let i = 1; i < values.length; i++) {
+    const dt = times[i] - times[i - 1];
+    if (dt <= 0) {
+      result.push(previous);
+      continue;
+    }
+
+    const rawDerivative = (values[i] - previous) / dt;
+    derivative += smoothing(derivativeCutoffHz, dt) * (rawDerivative - derivative);
+
+    const cutoff = minCutoffHz + beta * Math.abs(derivative);
+    previous += smoothing(cutoff, dt) * (values[i] - previous);
+    result.push(previous);
+  }
+
+  return result;
+}
+
+/**
+ * Cubic smoothing spline (Reinsch)
+ * Minimizes Σ (yᵢ − g(tᵢ))² + λ ∫ g''(t)² dt over cubic splines g with knots at the sample
+ * times. λ is set from the cutoff and the typical interval, so the spline passes about half
+ * the amplitude of a sine at the cutoff frequency.
+ *
+ * @param cutoffHz - Frequency the spline attenuates to about half
+ */
+export function smoothingSplineFilter(values: number[], times: number[], cutoffHz: number): number[] {
+  const n = values.length;
+  if (n < 3) return [...values];
+
+  const lambda = 1 / (getTypicalInterval(times) * (2 * Math.PI * cutoffHz) ** 4);
+  const h = times.slice(1).map((time, i) => Math.max(MIN_INTERVAL, time - times[i]));
+
+  // Q (n × n−2): second divided differences; R (n−2 × n−2): tridiagonal spline Gram matrix
+  const q = (row: number, col: number): number => {
+    // col is the interior knot index, 1 … n−2
+    if (row === col - 1) return 1 / h[col - 1];
+    if (row === col) return -1 / h[col - 1] - 1 / h[col];
+    if (row === col + 1) return 1 / h[col];
+    return 0;
+  };
+
+  // (R + λ QᵀQ) γ = Qᵀ y, a pentadiagonal system over the interior knots
+  const m = n - 2;
+  const bandwidth = 2;
+  const bands = Array.from({ length: m }, () => new Array<number>(2 * bandwidth + 1).fill(0));
+  const rhs = new Array<number>(m).fill(0);
+
+  for (let i = 0; i < m; i++) {
+    const col = i + 1;
+    for (let offset = -bandwidth; offset <= bandwidth; offset++) {
+      const j = i + offset;
+      if (j < 0 || j >= m) continue;
+      let qtq = 0;
+      for (let row = Math.max(col, j + 1) - 1; row <= Math.min(col, j + 1) + 1; row++) {
+        qtq += q(row, col) * q(row, j + 1);
+      }
+      let r = 0;
+      if (offset === 0) r = (h[i] + h[i + 1]) / 3;
+      else if (Math.abs(offset) === 1) r = h[Math.max(i, j)] / 6;
+      bands[i][offset + bandwidth] = r + lambda * qtq;
+    }
+    rhs[i] = q(col - 1, col) * values[col - 1] + q(col, col) * values[col] + q(col + 1, col) * values[col + 1];
+  }
+
+  const gamma = solveBandedSystem(bands, rhs, bandwidth);
+
+  // g = y − λ Q γ
+  return values.map((value, row) => {
+    let qGamma = 0;
+    for (let col = Math.max(1, row - 1); col <= Math.min(m, row + 1); col++) {
+      qGamma += q(row, col) * gamma[col - 1];
+    }
+    return value - lambda * qGamma;
+  });
+}
@@ -1,9 +1,9 @@
 /**
- * Kinematics utilities for 2D two-link robot arm
+ * Kinematics utilities for 2D planar N-link robot arms
  * Handles forward and inverse kinematics calculations
  */
 
-import type { Vector2D, RobotArmConfig } from '../types';
+import type { Vector2D, RobotArmConfig, JointLimit, MotionFrame } from '../types';
 
 /**
  * Calculate the position of a point given angle and length from origin
@@ -24,6 +24,20 @@ export function distance(p1: Vector2D, p2: Vector2D): number {
   return Math.sqrt(dx * dx + dy * dy);
 }
 
+/**
+ * Distance from a point to the line segment between two points
+ */
+export function distanceToSegment(point: Vector2D, start: Vector2D, end: Vector2D): number {
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+  const lengthSquared = dx * dx + dy * dy;
+  if (lengthSquared === 0) return distance(point, start);
+
+  // Project onto the segment, staying between its ends
+  const t = Math.max(0, Math.min(1, ((point.x - start.x) * dx + (point.y - start.y) * dy) / lengthSquared));
+  return distance(point, { x: start.x + t * dx, y: start.y + t * dy });
+}
+
 /**
  * Calculate angle from point p1 to point p2
  */
@@ -32,37 +46,85 @@ export function angleTo(p1: Vector2D, p2: Vector2D): number {
 }
 
 /**
- * Forward kinematics: calculate end effector position from joint angles
+ * Forward kinematics: calculate joint and end effector positions from joint angles
+ * Works for any number of links; each joint angle is relative to the previous link
  *
  * @param config - Robot arm configuration
- * @returns Object containing elbow and end effector positions
+ * @returns Object containing every joint position (shoulder first) and the end effector position
  */
 export function forwardKinematics(config: RobotArmConfig): {
-  elbowPosition: Vector2D;
+  jointPositions: Vector2D[];
   endEffectorPosition: Vector2D;
 } {
-  // Calculate elbow position
-  const elbowPosition = polarToCartesian(
-    config.shoulderPosition,
-    config.shoulderAngle,
-    config.upperArmLength
-  );
+  const jointPositions: Vector2D[] = [];
+  let position = config.shoulderPosition;
+  let absoluteAngle = 0;
+
+  // Walk the chain from base to tip, accumulating relative joint angles
+  for (let i = 0; i < config.linkLengths.length; i++) {
+    jointPositions.push(position);
+    absoluteAngle += config.jointAngles[i] ?? 0;
+    position = polarToCartesian(position, absoluteAngle, config.linkLengths[i]);
+  }
+
+  return { jointPositions, endEffectorPosition: position };
+}
+
+/**
+ * Rebuild the arm a frame was recorded with from its joint positions
+ * Link lengths are the distances between consecutive joints and the end effector,
+ * so imported recordings replay on the arm they were made with
+ *
+ * @param frame - Recorded frame (joint positions shoulder first)
+ * @param jointLimits - Limits to apply; joints without one are unlimited
+ */
+export function robotConfigFromFrame(frame: MotionFrame, jointLimits: JointLimit[] = []): RobotArmConfig {
+  const points = [...frame.jointPositions, frame.endEffectorPosition];
+
+  return {
+    shoulderPosition: frame.jointPositions[0],
+    linkLengths: frame.jointPositions.map((position, i) => distance(position, points[i + 1])),
+    jointAngles: [...frame.jointAngles],
+    jointLimits
+  };
+}
+
+/**
+ * Minimum and maximum distance from the base the end effector can reach
+ */
+export function getReachLimits(linkLengths: number[]): { minReach: number; maxReach: number } {
+  const maxReach = linkLengths.reduce((sum, length) => sum + length, 0);
+  const longestLink = linkLengths.length > 0 ? Math.max(...linkLengths) : 0;
 
-  // Calculate end effector position
-  // The elbow angle is relative to the upper arm
-  const absoluteElbowAngle = config.shoulderAngle + config.elbowAngle;
-  const endEffectorPosition = polarToCartesian(
-    elbowPosition,
-    absoluteElbowAngle,
-    config.lowerArmLength
-  );
+  // The chain can only fold back on itself if the other links are long enough
+  const minReach = Math.max(0, 2 * longestLink - maxReach);
 
-  return { elbowPosition, endEffectorPosition };
+  return { minReach, maxReach };
+}
+
+/**
+ * Clamp a target position to the reachable annulus around the shoulder
+ */
+export function clampToWorkspace(
+  shoulderPosition: Vector2D,
+  targetPosition: Vector2D,
+  linkLengths: number[]
+): Vector2D {
+  const { minReach, maxReach } = getReachLimits(linkLengths);
+  const dist = distance(shoulderPosition, targetPosition);
+
+  if (dist > maxReach) {
+    return polarToCartesian(shoulderPosition, angleTo(shoulderPosition, targetPosition), maxReach);
+  }
+  if (dist < minReach) {
+    return polarToCartesian(shoulderPosition, angleTo(shoulderPosition, targetPosition), minReach);
+  }
+  return targetPosition;
 }
 
 /**
  * Inverse kinematics: calculate joint angles to reach target position
- * Uses analytical solution for 2-link planar arm
+ * Uses analytical solution for 2-link planar arm (see solveInverseKinematics for N links)
  *
  * IMPORTANT: This function ALWAYS returns a solution by clamping unreachable targets
  * to the workspace boundary. The end effector will reach the clamped position.
@@ -143,6 +205,152 @@ export function inverseKinematics(
   return { shoulderAngle, elbowAngle, clampedTarget };
 }
 
+/**
+ * Check whether a joint limit actually restricts the joint (less than a full turn)
+ */
+export function isLimitedJoint(limit?: JointLimit): limit is JointLimit {
+  return !!limit && limit.max - limit.min < 2 * Math.PI;
+}
+
+/**
+ * Clamp a joint angle to its allowed range
+ * The angle is first wrapped into the revolution centred on the range, so an angle
+ * outside the range snaps to whichever limit is closer around the circle.
+ * Joints that can turn all the way around are left untouched (no wrapping).
+ */
+export function clampToJointLimit(angle: number, limit?: JointLimit): number {
+  if (!isLimitedJoint(limit)) return angle;
+
+  const mid = (limit.min + limit.max) / 2;
+  const wrapped = mid + normalizeAngle(angle - mid);
+  return Math.min(limit.max, Math.max(limit.min, wrapped));
+}
+
+/**
+ * Clamp every joint angle to its allowed range
+ */
+export function clampJointAngles(jointAngles: number[], jointLimits: JointLimit[]): number[] {
+  return jointAngles.map((angle, i) => clampToJointLimit(angle, jointLimits[i]));
+}
+
+/**
+ * Check whether every joint angle is inside its allowed range (up to wraparound)
+ */
+export function isWithinJointLimits(jointAngles: number[], jointLimits: JointLimit[]): boolean {
+  return jointAngles.every((angle, i) => {
+    const limit = jointLimits[i];
+    if (!isLimitedJoint(limit)) return true;
+    const mid = (limit.min + limit.max) / 2;
+    const wrapped = mid + normalizeAngle(angle - mid);
+    return wrapped >= limit.min - 1e-9 && wrapped <= limit.max + 1e-9;
+  });
+}
+
+/**
+ * Iterative inverse kinematics using Cyclic Coordinate Descent (CCD)
+ * Works for any number of links. Starts from the current joint angles, so the
+ * solution stays close to the current pose and the arm does not flip.
+ * Every joint is clamped to its limits after each update, so a joint that hits a
+ * limit stops there and the remaining joints make up the difference.
+ *
+ * @param config - Current robot arm configuration (used as the initial guess)
+ * @param targetPosition - Desired end effector position (will be clamped if unreachable)
+ * @param maxIterations - Maximum number of full sweeps over the chain
+ * @param tolerance - Stop once the end effector is this close to the target (pixels)
+ * @returns Joint angles and the clamped target position
+ */
+export function inverseKinematicsCCD(
+  config: RobotArmConfig,
+  targetPosition: Vector2D,
+  maxIterations: number = 50,
+  tolerance: number = 0.5
+): { jointAngles: number[]; clampedTarget: Vector2D } {
+  const clampedTarget = clampToWorkspace(config.shoulderPosition, targetPosition, config.linkLengths);
+  const jointAngles = clampJointAngles(config.jointAngles, config.jointLimits);
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    // Sweep from the last joint back to the shoulder
+    for (let i = jointAngles.length - 1; i >= 0; i--) {
+      const { jointPositions, endEffectorPosition } = forwardKinematics({ ...config, jointAngles });
+      const pivot = jointPositions[i];
+
+      // Rotate this joint so the pivot-to-end-effector ray points at the target.
+      // Adding the wrapped delta keeps the angles continuous (no jumps at ±π)
+      const delta = normalizeAngle(angleTo(pivot, clampedTarget) - angleTo(pivot, endEffectorPosition));
+      jointAngles[i] = clampToJointLimit(jointAngles[i] + delta, config.jointLimits[i]);
+    }
+
+    const { endEffectorPosition } = forwardKinematics({ ...config, jointAngles });
+    if (distance(endEffectorPosition, clampedTarget) <= tolerance) {
+      break;
+    }
+  }
+
+  return { jointAngles, clampedTarget };
+}
+
+/**
+ * Solve inverse kinematics for an arm with any number of links
+ * Two-link arms use the analytical solution, choosing the elbow configuration
+ * closest to the current pose that respects the joint limits; longer chains
+ * (and targets no analytical solution can reach within the limits) use CCD,
+ * which stops at the limits and gets as close to the target as it can.
+ *
+ * @param config - Current robot arm configuration
+ * @param targetPosition - Desired end effector position (will be clamped if unreachable)
+ * @param allowFlip - Whether to switch to the other elbow configuration when the
+ *   nearest one is outside the limits (false keeps the arm on its current side)
+ * @returns Joint angles and the clamped target position
+ */
+export function solveInverseKinematics(
+  config: RobotArmConfig,
+  targetPosition: Vector2D,
+  allowFlip: boolean = true
+): { jointAngles: number[]; clampedTarget: Vector2D } {
+  if (config.linkLengths.length !== 2) {
+    return inverseKinematicsCCD(config, targetPosition);
+  }
+
+  const [upperArmLength, lowerArmLength] = config.linkLengths;
+  const [currentShoulder, currentElbow] = config.jointAngles;
+
+  // Try both elbow configurations and rank them by closeness to the current pose
+  // This prevents unwanted flipping when grabbing the end effector
+  const candidates = [true, false]
+    .map(elbowUp => {
+      const ik = inverseKinematics(config.shoulderPosition, targetPosition, upperArmLength, lowerArmLength, elbowUp);
+      return {
+        jointAngles: [ik.shoulderAngle, ik.elbowAngle],
+        clampedTarget: ik.clampedTarget,
+        jointDistance: Math.abs(ik.shoulderAngle - currentShoulder) + Math.abs(ik.elbowAngle - currentElbow)
+      };
+    })
+    .sort((a, b) => a.jointDistance - b.jointDistance);
+
+  const allowed = allowFlip ? candidates : candidates.slice(0, 1);
+  const solution = allowed.find(candidate => isWithinJointLimits(candidate.jointAngles, config.jointLimits));
+
+  if (!solution) {
+    return inverseKinematicsCCD(config, targetPosition);
+  }
+
+  return {
+    jointAngles: clampJointAngles(solution.jointAngles, config.jointLimits),
+    clampedTarget: solution.clampedTarget
+  };
+}
+
+/**
+ * Largest absolute change between two sets of joint angles
+ */
+export function maxJointAngleDelta(a: number[], b: number[]): number {
+  let maxDelta = a.length === b.length ? 0 : Infinity;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    maxDelta = Math.max(maxDelta, Math.abs(a[i] - b[i]));
+  }
+  return maxDelta;
+}
+
 /**
  * Check if end effector is within target zone
  */
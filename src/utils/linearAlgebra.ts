@@ -0,0 +1,68 @@
+/**
+ * Linear algebra utilities
+ * Small solvers for the dynamics model and the smoothing filters
+ */
+
+/**
+ * Solve a small dense linear system by Gaussian elimination with partial pivoting
+ */
+export function solveLinearSystem(matrix: number[][], rhs: number[]): number[] {
+  const n = rhs.length;
+  const a = matrix.map((row, i) => [...row, rhs[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = a[row][col] / a[col][col];
+      for (let k = col; k <= n; k++) a[row][k] -= factor * a[col][k];
+    }
+  }
+
+  const x = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = a[row][n];
+    for (let k = row + 1; k < n; k++) sum -= a[row][k] * x[k];
+    x[row] = sum / a[row][row];
+  }
+  return x;
+}
+
+/**
+ * Solve a banded linear system by Gaussian elimination without pivoting
+ * For symmetric positive definite matrices such as the smoothing spline's, where
+ * pivoting is not needed; fill-in stays within the band.
+ *
+ * @param bands - One row per equation holding columns row − bandwidth … row + bandwidth
+ *   (entries outside the matrix are ignored)
+ * @param bandwidth - Number of non-zero diagonals either side of the main one
+ */
+export function solveBandedSystem(bands: number[][], rhs: number[], bandwidth: number): number[] {
+  const n = rhs.length;
+  const a = bands.map(row => [...row]);
+  const b = [...rhs];
+  const at = (row: number, col: number) => col - row + bandwidth;
+
+  for (let col = 0; col < n; col++) {
+    const last = Math.min(n - 1, col + bandwidth);
+    for (let row = col + 1; row <= last; row++) {
+      const factor = a[row][at(row, col)] / a[col][bandwidth];
+      if (factor === 0) continue;
+      for (let k = col; k <= last; k++) a[row][at(row, k)] -= factor * a[col][at(col, k)];
+      b[row] -= factor * b[col];
+    }
+  }
+
+  const x = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = b[row];
+    const last = Math.min(n - 1, row + bandwidth);
+    for (let k = row + 1; k <= last; k++) sum -= a[row][at(row, k)] * x[k];
+    x[row] = sum / a[row][bandwidth];
+  }
+  return x;
+}
@@ -0,0 +1,41 @@
+/**
+ * Trajectory overlay utilities
+ * Builds comparison traces and aligns them in time with the main trajectory
+ */
+
+import type { MotionFrame, MotionTrajectory, OverlayTrace } from '../types';
+import { OVERLAY_CONFIG } from '../constants/config';
+import { findFrameIndexAtTime } from './playback';
+
+/**
+ * Color of the nth overlay trace (the palette repeats after OVERLAY_CONFIG.colors.length traces)
+ */
+export function getOverlayColor(index: number): string {
+  return OVERLAY_CONFIG.colors[index % OVERLAY_CONFIG.colors.length];
+}
+
+/**
+ * Build visible, colored overlay traces
+ * @param entries - Trajectories with their legend labels, in legend order
+ */
+export function createOverlayTraces(
+  entries: Array<{ id: string; label: string; trajectory: MotionTrajectory }>
+): OverlayTrace[] {
+  return entries.map((entry, index) => ({
+    ...entry,
+    color: getOverlayColor(index),
+    visible: true
+  }));
+}
+
+/**
+ * Frame shown at a given time since the start of a trajectory
+ * Uses the last frame at or before that time; holds the final frame once the trajectory has ended
+ *
+ * @param frames - Recorded frames, timestamps ascending
+ * @param elapsedMs - Time since the first frame
+ */
+export function getFrameAtElapsedTime(frames: MotionFrame[], elapsedMs: number): MotionFrame | null {
+  if (frames.length === 0) return null;
+  return frames[findFrameIndexAtTime(frames, frames[0].timestamp + elapsedMs)];
+}
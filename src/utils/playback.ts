@@ -0,0 +1,159 @@
+/**
+ * Playback utilities
+ * Maps playback time to recorded frames for variable-speed, looping and reverse playback.
+ * Playback positions are fractional frame indices: between two recorded frames the
+ * pose is interpolated, so sparse recordings replay smoothly.
+ */
+
+import type { MotionFrame, FrameRange, PlaybackOptions } from '../types';
+import { ANIMATION_CONFIG } from '../constants/config';
+import { lerpAngle } from './kinematics';
+
+/**
+ * Index of the last frame at or before a timestamp (0 if the timestamp precedes every frame)
+ * Binary search; frames must be in ascending timestamp order
+ */
+export function findFrameIndexAtTime(frames: MotionFrame[], timestamp: number): number {
+  let left = 0;
+  let right = frames.length - 1;
+  let frameIndex = 0;
+
+  while (left <= right) {
+    const mid = Math.floor((left + right) / 2);
+    if (frames[mid].timestamp <= timestamp) {
+      frameIndex = mid;
+      left = mid + 1;
+    } else {
+      right = mid - 1;
+    }
+  }
+
+  return frameIndex;
+}
+
+/**
+ * Fractional frame position at a timestamp, interpolated between the neighbouring frames
+ */
+export function getFramePositionAtTime(frames: MotionFrame[], timestamp: number): number {
+  if (frames.length === 0) return 0;
+
+  const index = findFrameIndexAtTime(frames, timestamp);
+  const next = frames[index + 1];
+  if (!next) return index;
+
+  const gap = next.timestamp - frames[index].timestamp;
+  if (gap <= 0) return index;
+  return index + Math.min(1, Math.max(0, (timestamp - frames[index].timestamp) / gap));
+}
+
+/**
+ * Split a playback position into the frame before it and the fraction towards the next frame
+ */
+function splitFramePosition(frameCount: number, position: number): { index: number; fraction: number } {
+  const clamped = Math.min(Math.max(0, position), Math.max(0, frameCount - 1));
+  const index = Math.floor(clamped);
+  return { index, fraction: clamped - index };
+}
+
+/**
+ * Timestamp at a fractional frame position (the inverse of getFramePositionAtTime)
+ */
+export function getTimeAtFramePosition(frames: MotionFrame[], position: number): number {
+  if (frames.length === 0) return 0;
+
+  const { index, fraction } = splitFramePosition(frames.length, position);
+  const frame = frames[index];
+  const next = frames[index + 1];
+  if (!next || fraction === 0) return frame.timestamp;
+  return frame.timestamp + (next.timestamp - frame.timestamp) * fraction;
+}
+
+/**
+ * Joint angles at a fractional frame position
+ * Interpolates each joint between the neighbouring frames; the stored frames are not changed
+ */
+export function interpolateJointAngles(frames: MotionFrame[], position: number): number[] {
+  if (frames.length === 0) return [];
+
+  const { index, fraction } = splitFramePosition(frames.length, position);
+  const frame = frames[index];
+  const next = frames[index + 1];
+  if (!next || fraction === 0) return frame.jointAngles;
+
+  return frame.jointAngles.map((angle, joint) => lerpAngle(angle, next.jointAngles[joint] ?? angle, fraction));
+}
+
+/**
+ * Clamp a playback speed to the supported range
+ */
+export function clampPlaybackSpeed(speed: number): number {
+  if (!Number.isFinite(speed)) return ANIMATION_CONFIG.playbackSpeed;
+  return Math.min(ANIMATION_CONFIG.maxPlaybackSpeed, Math.max(ANIMATION_CONFIG.minPlaybackSpeed, speed));
+}
+
+/**
+ * Frames playback runs between: the A–B range clamped to the trajectory, or every frame
+ */
+export function getPlaybackFrameRange(frameCount: number, loopRange: FrameRange | null): FrameRange {
+  const lastFrame = Math.max(0, frameCount - 1);
+  if (!loopRange) return { start: 0, end: lastFrame };
+
+  const start = Math.min(Math.max(0, Math.min(loopRange.start, loopRange.end)), lastFrame);
+  const end = Math.min(Math.max(loopRange.start, loopRange.end), lastFrame);
+  return { start, end };
+}
+
+/**
+ * Position to start playing from when play is pressed
+ * Restarts from the beginning of the range (the end, in reverse) when the current
+ * position is already at the far end or outside the range
+ */
+export function getPlaybackStartPosition(frameCount: number, position: number, options: PlaybackOptions): number {
+  const { start, end } = getPlaybackFrameRange(frameCount, options.loopRange);
+
+  if (options.reverse) {
+    return position <= start || position > end ? end : position;
+  }
+  return position >= end || position < start ? start : position;
+}
+
+/**
+ * Advance the playback clock by one tick
+ *
+ * @param frames - Recorded frames
+ * @param time - Current playback time (recording timestamp, ms)
+ * @param deltaMs - Wall-clock time since the last tick
+ * @param options - Speed, direction, looping and A–B range
+ * @returns The new playback time and whether playback reached the end of the range
+ */
+export function advancePlaybackTime(
+  frames: MotionFrame[],
+  time: number,
+  deltaMs: number,
+  options: PlaybackOptions
+): { time: number; finished: boolean } {
+  const range = getPlaybackFrameRange(frames.length, options.loopRange);
+  const startTime = frames[range.start].timestamp;
+  const endTime = frames[range.end].timestamp;
+  const span = endTime - startTime;
+  const wraps = options.loop || options.loopRange !== null;
+
+  // Jump into the range if it moved under the playhead
+  let current = time;
+  if (current < startTime || current > endTime) {
+    current = options.reverse ? endTime : startTime;
+  }
+
+  const step = deltaMs * clampPlaybackSpeed(options.speed);
+  let next = options.reverse ? current - step : current + step;
+
+  if (next > endTime) {
+    if (!wraps || span <= 0) return { time: endTime, finished: true };
+    next = startTime + (next - endTime) % span;
+  } else if (next < startTime) {
+    if (!wraps || span <= 0) return { time: startTime, finished: true };
+    next = endTime - (startTime - next) % span;
+  }
+
+  return { time: next, finished: false };
+}
@@ -0,0 +1,328 @@
+/**
+ * Study protocol utilities
+ * Loads and validates the study protocol and expands it into a per-session trial plan
+ */
+
+import type {
+  StudyProtocol,
+  PromptType,
+  SessionPlan,
+  SessionAssignment,
+  PromptSetStrategy,
+  PromptOrderStrategy
+} from '../types';
+import { POSE_PRESETS } from '../constants/config';
+import { BUNDLED_PROTOCOLS, DEFAULT_PROTOCOL } from '../constants/protocols';
+import {
+  hashString,
+  createSeededRandom,
+  shuffle,
+  balancedLatinSquareRow,
+  balancedLatinSquareRowCount,
+  nthPermutation,
+  permutationCount
+} from './counterbalancing';
+
+/**
+ * Every prompt type a protocol may use
+ */
+const PROMPT_TYPES: PromptType[] = [
+  'Bound', 'Free', 'Sudden', 'Sustained', 'Strong', 'Light', 'Direct', 'Indirect'
+];
+
+const PROMPT_SET_STRATEGIES: PromptSetStrategy[] = ['fixed', 'random', 'counterbalanced'];
+
+const PROMPT_ORDER_STRATEGIES: PromptOrderStrategy[] = [
+  'fixed', 'random', 'seeded-random', 'latin-square', 'full-counterbalance'
+];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isPositiveInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0;
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+/**
+ * Validate raw JSON against the study protocol schema
+ *
+ * @param raw - Parsed JSON
+ * @returns The protocol, typed
+ * @throws Error listing every problem found
+ */
+export function validateStudyProtocol(raw: unknown): StudyProtocol {
+  const errors: string[] = [];
+
+  if (!isRecord(raw)) {
+    throw new Error('Invalid study protocol: expected a JSON object');
+  }
+
+  if (!isNonEmptyString(raw.name)) {
+    errors.push('"name" must be a non-empty string');
+  }
+
+  // Prompt sets
+  const promptSetIds = new Set<string>();
+  let smallestSetSize = Infinity;
+
+  if (!Array.isArray(raw.promptSets) || raw.promptSets.length === 0) {
+    errors.push('"promptSets" must be a non-empty array');
+  } else {
+    raw.promptSets.forEach((set: unknown, setIndex) => {
+      const where = `promptSets[${setIndex}]`;
+      if (!isRecord(set)) {
+        errors.push(`${where} must be an object`);
+        return;
+      }
+
+      if (!isNonEmptyString(set.id)) {
+        errors.push(`${where}.id must be a non-empty string`);
+      } else if (promptSetIds.has(set.id)) {
+        errors.push(`${where}.id "${set.id}" is used by more than one prompt set`);
+      } else {
+        promptSetIds.add(set.id);
+      }
+
+      if (!isNonEmptyString(set.label)) {
+        errors.push(`${where}.label must be a non-empty string`);
+      }
+
+      if (!Array.isArray(set.prompts) || set.prompts.length === 0) {
+        errors.push(`${where}.prompts must be a non-empty array`);
+        return;
+      }
+
+      smallestSetSize = Math.min(smallestSetSize, set.prompts.length);
+      const seenTypes = new Set<string>();
+
+      set.prompts.forEach((prompt: unknown, promptIndex) => {
+        const promptWhere = `${where}.prompts[${promptIndex}]`;
+        if (!isRecord(prompt)) {
+          errors.push(`${promptWhere} must be an object`);
+          return;
+        }
+        if (!PROMPT_TYPES.includes(prompt.type as PromptType)) {
+          errors.push(`${promptWhere}.type must be one of ${PROMPT_TYPES.join(', ')}`);
+        } else if (seenTypes.has(prompt.type as string)) {
+          errors.push(`${promptWhere}.type "${prompt.type}" appears more than once in the set`);
+        } else {
+          seenTypes.add(prompt.type as string);
+        }
+        if (!isNonEmptyString(prompt.text)) {
+          errors.push(`${promptWhere}.text must be a non-empty string`);
+        }
+      });
+    });
+  }
+
+  // Trials
+  if (!isPositiveInteger(raw.repetitions)) {
+    errors.push('"repetitions" must be a positive integer');
+  }
+
+  if (!isPositiveInteger(raw.trialCount)) {
+    errors.push('"trialCount" must be a positive integer');
+  } else if (isPositiveInteger(raw.repetitions) && raw.trialCount > smallestSetSize * raw.repetitions) {
+    errors.push(`"trialCount" (${raw.trialCount}) exceeds the prompts available in the smallest set × repetitions (${smallestSetSize * raw.repetitions})`);
+  }
+
+  if (!Array.isArray(raw.posePresets) || raw.posePresets.length === 0) {
+    errors.push('"posePresets" must be a non-empty array');
+  } else {
+    raw.posePresets.forEach((name: unknown, index) => {
+      if (typeof name !== 'string' || !(name in POSE_PRESETS)) {
+        errors.push(`posePresets[${index}] must be one of ${Object.keys(POSE_PRESETS).join(', ')}`);
+      }
+    });
+  }
+
+  // Assignment
+  if (!isRecord(raw.assignment)) {
+    errors.push('"assignment" must be an object');
+  } else {
+    if (!PROMPT_SET_STRATEGIES.includes(raw.assignment.promptSet as PromptSetStrategy)) {
+      errors.push(`assignment.promptSet must be one of ${PROMPT_SET_STRATEGIES.join(', ')}`);
+    }
+    if (!PROMPT_ORDER_STRATEGIES.includes(raw.assignment.promptOrder as PromptOrderStrategy)) {
+      errors.push(`assignment.promptOrder must be one of ${PROMPT_ORDER_STRATEGIES.join(', ')}`);
+    }
+  }
+
+  // Upload
+  if (raw.uploadEndpoint !== undefined && typeof raw.uploadEndpoint !== 'string') {
+    errors.push('"uploadEndpoint" must be a string');
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid study protocol:\n- ${errors.join('\n- ')}`);
+  }
+
+  return raw as unknown as StudyProtocol;
+}
+
+/**
+ * Load the study protocol selected by the ?protocol= query parameter
+ * The parameter is either the name of a bundled protocol or a URL to a protocol JSON file.
+ * Without the parameter the default bundled protocol is used.
+ * Only bundled protocols may set uploadEndpoint: anyone can link a protocol URL, and it
+ * must not be able to send participants' data elsewhere. Fetched protocols upload to
+ * VITE_UPLOAD_ENDPOINT.
+ *
+ * @param search - Query string to read (defaults to the current page's)
+ * @throws Error if the protocol cannot be fetched or is invalid
+ */
+export async function loadStudyProtocol(search: string = window.location.search): Promise<StudyProtocol> {
+  const source = new URLSearchParams(search).get('protocol') || DEFAULT_PROTOCOL;
+
+  if (Object.hasOwn(BUNDLED_PROTOCOLS, source)) {
+    return validateStudyProtocol(BUNDLED_PROTOCOLS[source]);
+  }
+
+  const response = await fetch(source);
+  if (!response.ok) {
+    throw new Error(`Could not load study protocol from ${source} (HTTP ${response.status})`);
+  }
+
+  const { uploadEndpoint, ...protocol } = validateStudyProtocol(await response.json());
+  if (uploadEndpoint !== undefined) {
+    console.warn(`Ignoring uploadEndpoint of study protocol ${source}: only bundled protocols may set it`);
+  }
+  return protocol;
+}
+
+/**
+ * Read the participant sequence number from the ?seq= query parameter
+ * @returns Non-negative integer, or null when absent or malformed
+ */
+export function getSequenceNumber(search: string = window.location.search): number | null {
+  const value = new URLSearchParams(search).get('seq');
+  if (value === null || !/^\d+$/.test(value)) return null;
+  return Number(value);
+}
+
+/**
+ * Whether the app was opened as the researcher dashboard (?mode=review)
+ */
+export function isReviewMode(search: string = window.location.search): boolean {
+  return new URLSearchParams(search).get('mode') === 'review';
+}
+
+/**
+ * Order a block of prompt indices according to the prompt order strategy
+ *
+ * @param count - Number of prompts in the set
+ * @param strategy - Prompt order strategy
+ * @param orderSeed - Deterministic seed for this participant
+ * @param block - Repetition block (each block moves on to the next row)
+ * @param random - Random source for the random strategies
+ * @returns Prompt indices and the row used (null when the strategy has no rows)
+ */
+function orderPromptBlock(
+  count: number,
+  strategy: PromptOrderStrategy,
+  orderSeed: number,
+  block: number,
+  random: () => number
+): { order: number[]; row: number | null } {
+  const identity = Array.from({ length: count }, (_, i) => i);
+
+  switch (strategy) {
+    case 'latin-square': {
+      const row = (orderSeed + block) % balancedLatinSquareRowCount(count);
+      return { order: balancedLatinSquareRow(count, row), row };
+    }
+    case 'full-counterbalance': {
+      const row = (orderSeed + block) % permutationCount(count);
+      return { order: nthPermutation(count, row), row };
+    }
+    case 'random':
+    case 'seeded-random':
+      return { order: shuffle(identity, random), row: null };
+    default:
+      return { order: identity, row: null };
+  }
+}
+
+/**
+ * Expand the protocol into the trials of a new session
+ * Picks the prompt set, orders the prompt pool (every prompt × repetitions, one
+ * ordered block per repetition), keeps the first trialCount entries and assigns
+ * a pose preset to each trial.
+ *
+ * Deterministic strategies are seeded by the sequence number when given, otherwise
+ * by a hash of the participant ID. With a counterbalanced prompt set, consecutive
+ * seeds cycle through the sets first, then through the order rows.
+ *
+ * @param protocol - Validated study protocol
+ * @param participantId - Participant ID (seed fallback)
+ * @param sequenceNumber - Participant sequence number, e.g. from ?seq=
+ */
+export function buildSessionPlan(
+  protocol: StudyProtocol,
+  participantId: string,
+  sequenceNumber: number | null = null
+): SessionPlan {
+  const { assignment } = protocol;
+  const seed = sequenceNumber ?? hashString(participantId);
+  const setCount = protocol.promptSets.length;
+
+  // Prompt set
+  let setIndex = 0;
+  if (assignment.promptSet === 'random') {
+    setIndex = Math.floor(Math.random() * setCount);
+  } else if (assignment.promptSet === 'counterbalanced') {
+    setIndex = seed % setCount;
+  }
+  const promptSet = protocol.promptSets[setIndex];
+
+  // Prompt order: the seed left over after choosing the set picks the row
+  const orderSeed = assignment.promptSet === 'counterbalanced' ? Math.floor(seed / setCount) : seed;
+  const random = assignment.promptOrder === 'seeded-random' ? createSeededRandom(seed) : Math.random;
+  const types = promptSet.prompts.map(prompt => prompt.type);
+
+  const pool: PromptType[] = [];
+  let row: number | null = null;
+  for (let repetition = 0; repetition < protocol.repetitions; repetition++) {
+    const block = orderPromptBlock(types.length, assignment.promptOrder, orderSeed, repetition, random);
+    if (repetition === 0) row = block.row;
+    pool.push(...block.order.map(index => types[index]));
+  }
+
+  const promptOrder = pool.slice(0, protocol.trialCount);
+  const posePresetOrder = promptOrder.map((_, trial) =>
+    protocol.posePresets[trial % protocol.posePresets.length]
+  );
+
+  const isSeeded = assignment.promptSet === 'counterbalanced' ||
+    ['seeded-random', 'latin-square', 'full-counterbalance'].includes(assignment.promptOrder);
+
+  const sessionAssignment: SessionAssignment = {
+    promptSetStrategy: assignment.promptSet,
+    promptOrderStrategy: assignment.promptOrder,
+    seed: isSeeded ? seed : null,
+    row
+  };
+
+  return { promptSet: promptSet.id, promptOrder, posePresetOrder, assignment: sessionAssignment };
+}
+
+/**
+ * Get prompt text for a prompt type in the given prompt set
+ */
+export function getPromptText(protocol: StudyProtocol, promptSetId: string, type: PromptType): string {
+  const promptSet = protocol.promptSets.find(set => set.id === promptSetId);
+  const prompt = promptSet?.prompts.find(p => p.type === type);
+  return prompt ? prompt.text : type;
+}
+
+/**
+ * Get the human-readable label of a prompt set
+ */
+export function getPromptSetLabel(protocol: StudyProtocol, promptSetId: string): string {
+  return protocol.promptSets.find(set => set.id === promptSetId)?.label ?? promptSetId;
+}
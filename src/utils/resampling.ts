@@ -0,0 +1,90 @@
+/**
+ * Trajectory resampling utilities
+ * Frames are captured on requestAnimationFrame ticks where the pose changed, so their
+ * spacing depends on the display and on how much the arm moved. Resampling puts a
+ * trajectory on a uniform time grid for downstream analysis and machine learning.
+ */
+
+import type { MotionTrajectory, MotionFrame } from '../types';
+import { RECORDING_CONFIG } from '../constants/config';
+import { forwardKinematics, robotConfigFromFrame, lerpVector } from './kinematics';
+import { getFramePositionAtTime, interpolateJointAngles } from './playback';
+
+/**
+ * Frame of a trajectory at a timestamp
+ * Returns the recorded frame when one falls exactly on the timestamp; otherwise joint
+ * angles are interpolated between the neighbouring frames and the joint and end
+ * effector positions recomputed with forward kinematics on the recorded arm.
+ * Synthesized frames keep the pointer input, control mode and obstacle contact of the
+ * recorded frame before them; a moving target is interpolated like the joints.
+ */
+function sampleFrameAtTime(frames: MotionFrame[], timestamp: number): MotionFrame {
+  const position = getFramePositionAtTime(frames, timestamp);
+  const frame = frames[Math.floor(position)];
+
+  if (frame.timestamp === timestamp) {
+    return { ...frame, synthesized: false };
+  }
+
+  const config = {
+    ...robotConfigFromFrame(frame),
+    jointAngles: interpolateJointAngles(frames, position)
+  };
+  const { jointPositions, endEffectorPosition } = forwardKinematics(config);
+
+  const next = frames[Math.min(frames.length - 1, Math.floor(position) + 1)];
+  const fraction = position - Math.floor(position);
+  const target = frame.target && next.target
+    ? {
+      position: lerpVector(frame.target.position, next.target.position, fraction),
+      radius: frame.target.radius + (next.target.radius - frame.target.radius) * fraction
+    }
+    : frame.target;
+
+  return {
+    timestamp,
+    jointAngles: config.jointAngles,
+    endEffectorPosition,
+    jointPositions,
+    synthesized: true,
+    input: frame.input,
+    control: frame.control,
+    collision: frame.collision,
+    target
+  };
+}
+
+/**
+ * Resample a trajectory at a fixed rate
+ * Samples start at the first recorded frame and are spaced exactly 1000 / rateHz ms apart,
+ * so the last sample may fall up to one interval before the last recorded frame.
+ * Every frame is flagged `synthesized` unless it is a recorded frame on the grid.
+ *
+ * @param trajectory - Recorded trajectory (left unchanged)
+ * @param rateHz - Sampling rate in frames per second
+ * @returns A copy of the trajectory with uniformly spaced frames
+ */
+export function resampleTrajectory(
+  trajectory: MotionTrajectory,
+  rateHz: number = RECORDING_CONFIG.frameRate
+): MotionTrajectory {
+  if (!Number.isFinite(rateHz) || rateHz <= 0) {
+    throw new Error(`Invalid resampling rate: ${rateHz} Hz`);
+  }
+
+  const { frames } = trajectory;
+  if (frames.length === 0) return { ...trajectory, frames: [] };
+
+  const interval = 1000 / rateHz;
+  const startTime = frames[0].timestamp;
+  const duration = frames[frames.length - 1].timestamp - startTime;
+  // Tolerance keeps a sample that lands on the last frame despite rounding
+  const sampleCount = Math.floor(duration / interval + 1e-9) + 1;
+
+  const resampled: MotionFrame[] = [];
+  for (let i = 0; i < sampleCount; i++) {
+    resampled.push(sampleFrameAtTime(frames, startTime + i * interval));
+  }
+
+  return { ...trajectory, frames: resampled };
+}
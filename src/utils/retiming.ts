@@ -0,0 +1,192 @@
+/**
+ * Trajectory retiming utilities
+ * Re-parameterize the timestamps of a recorded motion so it respects joint velocity and
+ * acceleration limits. Only the timing changes: every frame keeps its pose, so the arm
+ * follows the same geometric path.
+ *
+ * Limits are checked the way the exports measure them, with the finite differences of
+ * computeTrajectoryDerivatives; every mode ends by stretching the intervals around any
+ * frame that is still over a limit.
+ */
+
+import type { MotionFrame, MotionTrajectory, RetimingOptions } from '../types';
+import { differentiate, unwrapAngles } from './derivatives';
+import { normalizeAngle } from './kinematics';
+import { findFrameIndexAtTime } from './playback';
+import { RETIMING_CONFIG } from '../constants/config';
+
+// Joint movement (rad) below which two frames count as the same pose
+const SAME_POSE_TOLERANCE = 1e-9;
+
+// Ratio to a limit that still counts as within it (absorbs rounding)
+const LIMIT_TOLERANCE = 1.001;
+
+/**
+ * How far each frame is over the limits: the factor its neighbouring intervals must be
+ * stretched by (1 or less when within the limits)
+ *
+ * @param times - Frame times in seconds
+ */
+function getLimitRatios(frames: MotionFrame[], times: number[], options: RetimingOptions): number[] {
+  const ratios = frames.map(() => 0);
+  const jointCount = frames[0].jointAngles.length;
+
+  for (let joint = 0; joint < jointCount; joint++) {
+    const velocity = differentiate(unwrapAngles(frames.map(frame => frame.jointAngles[joint])), times);
+    const acceleration = differentiate(velocity, times);
+    frames.forEach((_, i) => {
+      ratios[i] = Math.max(
+        ratios[i],
+        Math.abs(velocity[i]) / options.maxVelocity,
+        Math.sqrt(Math.abs(acceleration[i]) / options.maxAcceleration)
+      );
+    });
+  }
+
+  return ratios;
+}
+
+/**
+ * Frame times from the intervals between frames
+ */
+function accumulateIntervals(startSeconds: number, intervals: number[]): number[] {
+  const times = [startSeconds];
+  intervals.forEach(interval => times.push(times[times.length - 1] + interval));
+  return times;
+}
+
+/**
+ * Stretch the intervals around every frame that is over a limit until none is
+ * Slowing down by a factor r divides velocity by r and acceleration by r², so the
+ * intervals either side of a frame are stretched by its ratio.
+ *
+ * @param intervals - Seconds between consecutive frames
+ * @returns The stretched intervals
+ */
+function enforceLimits(
+  frames: MotionFrame[],
+  startSeconds: number,
+  intervals: number[],
+  options: RetimingOptions
+): number[] {
+  let current = intervals;
+
+  for (let iteration = 0; iteration < RETIMING_CONFIG.maxIterations; iteration++) {
+    const ratios = getLimitRatios(frames, accumulateIntervals(startSeconds, current), options);
+    if (ratios.every(ratio => ratio <= LIMIT_TOLERANCE)) break;
+
+    const stretch = current.map(() => 1);
+    ratios.forEach((ratio, i) => {
+      if (ratio <= LIMIT_TOLERANCE) return;
+      if (i > 0) stretch[i - 1] = Math.max(stretch[i - 1], ratio);
+      if (i < current.length) stretch[i] = Math.max(stretch[i], ratio);
+    });
+    current = current.map((interval, i) => interval * stretch[i]);
+  }
+
+  return current;
+}
+
+/**
+ * Intervals of the fastest timing within the limits, starting and ending at rest
+ * The path is the polyline through the distinct poses in joint space. Its speed at each
+ * pose is capped by the velocity limit and by the acceleration needed to turn the corner
+ * there; forward and backward passes then cap how fast it can speed up or slow down along
+ * each segment. Half of the acceleration limit goes to turning and half to speed changes.
+ *
+ * @returns Seconds between consecutive frames (0 between repeats of the same pose, raised
+ *   to RETIMING_CONFIG.minIntervalMs by retimeTrajectory)
+ */
+function getTimeOptimalIntervals(frames: MotionFrame[], options: RetimingOptions): number[] {
+  // Segments between distinct poses, and the frame each one ends at
+  const segments: { delta: number[]; length: number; endFrame: number }[] = [];
+  let last = frames[0].jointAngles;
+  frames.forEach((frame, i) => {
+    if (i === 0) return;
+    const delta = frame.jointAngles.map((angle, joint) => normalizeAngle(angle - last[joint]));
+    const length = Math.hypot(...delta);
+    if (length <= SAME_POSE_TOLERANCE) return;
+    segments.push({ delta, length, endFrame: i });
+    last = frame.jointAngles;
+  });
+
+  const intervals = new Array<number>(frames.length - 1).fill(0);
+  if (segments.length === 0) return intervals;
+
+  const directions = segments.map(segment => segment.delta.map(d => d / segment.length));
+  const peak = (values: number[]) => Math.max(...values.map(Math.abs), SAME_POSE_TOLERANCE);
+  const turnAcceleration = options.maxAcceleration / 2;
+  const pathAcceleration = directions.map(direction => (options.maxAcceleration / 2) / peak(direction));
+
+  // Speed cap at each pose (path speed in rad/s along the polyline)
+  const speeds = new Array<number>(segments.length + 1).fill(0);
+  for (let k = 1; k < segments.length; k++) {
+    const before = directions[k - 1];
+    const after = directions[k];
+    const velocityCap = options.maxVelocity / Math.max(peak(before), peak(after));
+
+    const span = (segments[k - 1].length + segments[k].length) / 2;
+    const curvature = peak(after.map((value, joint) => (value - before[joint]) / span));
+    speeds[k] = Math.min(velocityCap, Math.sqrt(turnAcceleration / curvature));
+  }
+
+  // Forward pass (speeding up), then backward pass (slowing down)
+  for (let k = 0; k < segments.length; k++) {
+    speeds[k + 1] = Math.min(speeds[k + 1], Math.sqrt(speeds[k] ** 2 + 2 * pathAcceleration[k] * segments[k].length));
+  }
+  speeds[segments.length] = 0;
+  for (let k = segments.length - 1; k >= 0; k--) {
+    speeds[k] = Math.min(speeds[k], Math.sqrt(speeds[k + 1] ** 2 + 2 * pathAcceleration[k] * segments[k].length));
+  }
+
+  // Constant acceleration along each segment: time = length / mean speed
+  segments.forEach((segment, k) => {
+    intervals[segment.endFrame - 1] = (2 * segment.length) / (speeds[k] + speeds[k + 1]);
+  });
+
+  return intervals;
+}
+
+/**
+ * Retime a trajectory to joint velocity and acceleration limits
+ * Frames keep their poses and order; timestamps stay in milliseconds from the same first
+ * timestamp and strictly increase (at least RETIMING_CONFIG.minIntervalMs apart, even
+ * between repeats of the same pose). Waypoint hit times move with the frames they were
+ * recorded at.
+ *
+ * @param trajectory - Recorded trajectory
+ * @param options - Mode and limits (see RetimingMode)
+ * @returns The retimed trajectory, or the trajectory itself when it has fewer than two frames
+ */
+export function retimeTrajectory(trajectory: MotionTrajectory, options: RetimingOptions): MotionTrajectory {
+  const frames = trajectory.frames;
+  if (frames.length < 2) return trajectory;
+
+  const startSeconds = frames[0].timestamp / 1000;
+  const recorded = frames.slice(1).map((frame, i) => (frame.timestamp - frames[i].timestamp) / 1000);
+
+  let intervals: number[];
+  if (options.mode === 'time-optimal') {
+    intervals = getTimeOptimalIntervals(frames, options);
+  } else if (options.mode === 'uniform') {
+    // Finite differences scale exactly with a uniform factor, so one pass finds it
+    const ratios = getLimitRatios(frames, accumulateIntervals(startSeconds, recorded), options);
+    const factor = Math.max(...ratios);
+    intervals = factor > 0 ? recorded.map(interval => interval * factor) : recorded;
+  } else {
+    intervals = recorded;
+  }
+  intervals = intervals.map(interval => Math.max(interval, RETIMING_CONFIG.minIntervalMs / 1000));
+
+  const times = accumulateIntervals(startSeconds, enforceLimits(frames, startSeconds, intervals, options));
+  const retimedFrames = frames.map((frame, i) => ({ ...frame, timestamp: times[i] * 1000 }));
+
+  return {
+    ...trajectory,
+    frames: retimedFrames,
+    totalTimeMs: trajectory.totalTimeMs > 0 ? retimedFrames[retimedFrames.length - 1].timestamp : 0,
+    waypointHits: trajectory.waypointHits?.map(hit =>
+      hit === null ? null : retimedFrames[findFrameIndexAtTime(frames, hit)].timestamp
+    )
+  };
+}
@@ -0,0 +1,125 @@
+/**
+ * Scene timeline utilities
+ * Animate the target of a prompt over the time of the motion: keyframed position and size,
+ * an oscillation on top, and an optional drift away from the approaching end effector.
+ * Scene time is the recording time, so the target track lines up with the frames.
+ */
+
+import type { Vector2D, RobotArmConfig, SceneTimeline, TargetPose, MotionFrame } from '../types';
+import { clampToWorkspace, distance, lerpVector } from './kinematics';
+import { TARGET_CONFIG } from '../constants/config';
+
+/**
+ * Target pose of a scene at a time, before any evasion
+ *
+ * @param scene - Scene timeline (the target is static without one)
+ * @param basePosition - Target position of the preset, used where keyframes leave it out
+ * @param timeMs - Scene time, ms since the motion started
+ */
+export function getScenePose(
+  scene: SceneTimeline | undefined,
+  basePosition: Vector2D,
+  timeMs: number
+): TargetPose {
+  const keyframes = (scene?.keyframes ?? []).map(keyframe => ({
+    timeMs: keyframe.timeMs,
+    position: keyframe.position ?? basePosition,
+    radius: keyframe.radius ?? TARGET_CONFIG.radius
+  }));
+
+  let pose: TargetPose = { position: basePosition, radius: TARGET_CONFIG.radius };
+
+  if (keyframes.length > 0) {
+    const first = keyframes[0];
+    const last = keyframes[keyframes.length - 1];
+    const span = last.timeMs - first.timeMs;
+    const t = scene?.loop && span > 0 && timeMs > last.timeMs
+      ? first.timeMs + ((timeMs - first.timeMs) % span)
+      : timeMs;
+
+    const next = keyframes.findIndex(keyframe => keyframe.timeMs > t);
+    if (next === 0) {
+      pose = first;
+    } else if (next === -1) {
+      pose = last;
+    } else {
+      const a = keyframes[next - 1];
+      const b = keyframes[next];
+      const fraction = (t - a.timeMs) / (b.timeMs - a.timeMs);
+      pose = {
+        position: lerpVector(a.position, b.position, fraction),
+        radius: a.radius + (b.radius - a.radius) * fraction
+      };
+    }
+  }
+
+  const oscillation = scene?.oscillation;
+  if (oscillation && oscillation.periodMs > 0) {
+    const wave = Math.sin((2 * Math.PI * timeMs) / oscillation.periodMs);
+    pose = {
+      position: {
+        x: pose.position.x + oscillation.amplitude.x * wave,
+        y: pose.position.y + oscillation.amplitude.y * wave
+      },
+      radius: pose.radius
+    };
+  }
+
+  return { position: { ...pose.position }, radius: pose.radius };
+}
+
+/**
+ * Advance a scene by one tick of the clock
+ * While the end effector is within the evade distance, the evasion offset grows straight away
+ * from it. The target is kept within the arm's reach, so it can always be caught.
+ *
+ * @param offset - Evasion offset accumulated so far
+ * @param dtMs - Time since the previous tick
+ * @returns The target pose and the new evasion offset
+ */
+export function advanceScene(
+  scene: SceneTimeline | undefined,
+  basePosition: Vector2D,
+  timeMs: number,
+  dtMs: number,
+  offset: Vector2D,
+  endEffectorPosition: Vector2D,
+  config: RobotArmConfig
+): { pose: TargetPose; offset: Vector2D } {
+  const scripted = getScenePose(scene, basePosition, timeMs);
+  let position = { x: scripted.position.x + offset.x, y: scripted.position.y + offset.y };
+
+  const evade = scene?.evade;
+  if (evade) {
+    const gap = distance(endEffectorPosition, position);
+    if (gap < evade.distance && gap > 0) {
+      const step = (evade.speed * dtMs) / 1000;
+      position = {
+        x: position.x + ((position.x - endEffectorPosition.x) / gap) * step,
+        y: position.y + ((position.y - endEffectorPosition.y) / gap) * step
+      };
+    }
+    position = clampToWorkspace(config.shoulderPosition, position, config.linkLengths);
+  }
+
+  return {
+    pose: { position, radius: scripted.radius },
+    offset: { x: position.x - scripted.position.x, y: position.y - scripted.position.y }
+  };
+}
+
+/**
+ * Evasion offset recorded in a frame, to carry a scene on where a recording left off
+ */
+export function getRecordedSceneOffset(
+  scene: SceneTimeline | undefined,
+  basePosition: Vector2D,
+  frame: MotionFrame | undefined
+): Vector2D {
+  if (!frame?.target) return { x: 0, y: 0 };
+  const scripted = getScenePose(scene, basePosition, frame.timestamp);
+  return {
+    x: frame.target.position.x - scripted.position.x,
+    y: frame.target.position.y - scripted.position.y
+  };
+}
@@ -0,0 +1,49 @@
+/**
+ * Session persistence utilities
+ * Keeps the in-progress session in IndexedDB so a reload or crash does not lose it
+ */
+
+import type { SessionSnapshot } from '../types';
+import { PERSISTENCE_CONFIG } from '../constants/config';
+import { withStore } from './database';
+
+// Only one session is in progress per browser, stored under a fixed key
+const SNAPSHOT_KEY = 'current';
+
+/**
+ * Save the session snapshot, replacing any previous one
+ */
+export async function saveSessionSnapshot(snapshot: SessionSnapshot): Promise<void> {
+  await withStore(PERSISTENCE_CONFIG.sessionStoreName, 'readwrite', store => store.put(snapshot, SNAPSHOT_KEY));
+}
+
+/**
+ * Load the saved session snapshot
+ * @returns The snapshot, or null if there is none or it was saved in an older format
+ */
+export async function loadSessionSnapshot(): Promise<SessionSnapshot | null> {
+  const snapshot = await withStore<SessionSnapshot | undefined>(
+    PERSISTENCE_CONFIG.sessionStoreName,
+    'readonly',
+    store => store.get(SNAPSHOT_KEY)
+  );
+
+  if (!snapshot || snapshot.version !== PERSISTENCE_CONFIG.snapshotVersion) {
+    return null;
+  }
+  return snapshot;
+}
+
+/**
+ * Delete the saved session snapshot
+ */
+export async function clearSessionSnapshot(): Promise<void> {
+  await withStore(PERSISTENCE_CONFIG.sessionStoreName, 'readwrite', store => store.delete(SNAPSHOT_KEY));
+}
+
+/**
+ * Whether a snapshot is old enough that it probably belongs to an abandoned session
+ */
+export function isSnapshotStale(snapshot: SessionSnapshot, now: number = Date.now()): boolean {
+  return now - snapshot.savedAt > PERSISTENCE_CONFIG.staleAfterMs;
+}
@@ -1,11 +1,27 @@
 /**
  * Trajectory smoothing utilities
  * Provides functions to smooth recorded motion trajectories
+ * filterTrajectory applies any filter of filters.ts to the joint angles or to the end
+ * effector path, keeping angles and positions consistent through the kinematics.
  */
 
-import type { MotionTrajectory, MotionFrame, RobotArmConfig, Vector2D } from '../types';
-import { forwardKinematics, inverseKinematics } from './kinematics';
-import { SHOULDER_POSITION, ROBOT_CONFIG } from '../constants/config';
+import type {
+  MotionTrajectory,
+  MotionFrame,
+  RobotArmConfig,
+  Vector2D,
+  SmoothingOptions
+} from '../types';
+import { forwardKinematics, solveInverseKinematics, clampJointAngles } from './kinematics';
+import { unwrapAngles } from './derivatives';
+import {
+  gaussianFilter,
+  savitzkyGolayFilter,
+  butterworthFilter,
+  oneEuroFilter,
+  smoothingSplineFilter
+} from './filters';
+import { SMOOTHING_CONFIG } from '../constants/config';
 
 /**
  * Apply moving average smoothing to trajectory angles
@@ -28,26 +44,24 @@ export function smoothTrajectory(
     const endIdx = Math.min(trajectory.frames.length - 1, index + halfWindow);
 
     // Calculate average angles within the window
-    let sumShoulderAngle = 0;
-    let sumElbowAngle = 0;
+    const sumAngles = frame.jointAngles.map(() => 0);
     let count = 0;
 
     for (let i = startIdx; i <= endIdx; i++) {
-      sumShoulderAngle += trajectory.frames[i].shoulderAngle;
-      sumElbowAngle += trajectory.frames[i].elbowAngle;
+      trajectory.frames[i].jointAngles.forEach((angle, joint) => {
+        sumAngles[joint] += angle;
+      });
       count++;
     }
 
-    const avgShoulderAngle = sumShoulderAngle / count;
-    const avgElbowAngle = sumElbowAngle / count;
+    const avgAngles = sumAngles.map(sum => sum / count);
 
     // Recalculate positions based on smoothed angles
     // Import these from kinematics if needed, or just use the original positions
     // For now, we'll use the original positions to avoid circular dependencies
     return {
       ...frame,
-      shoulderAngle: avgShoulderAngle,
-      elbowAngle: avgElbowAngle
+      jointAngles: avgAngles
     };
   });
 
@@ -64,6 +78,7 @@ export function smoothTrajectory(
  */
 export function gaussianSmoothTrajectory(
   trajectory: MotionTrajectory,
+  robotConfig: RobotArmConfig,
   sigma: number = 2.0
 ): MotionTrajectory {
   if (trajectory.frames.length < 3) {
@@ -98,42 +113,133 @@ export function gaussianSmoothTrajectory(
   });
 
   // Second pass: use inverse kinematics to find angles for smoothed positions
-  const smoothedFrames: MotionFrame[] = trajectory.frames.map((frame, index) => {
-    const targetPos = smoothedPositions[index];
-
-    // Use inverse kinematics to get angles for the smoothed position
-    const { shoulderAngle, elbowAngle } = inverseKinematics(
-      SHOULDER_POSITION,
-      targetPos,
-      ROBOT_CONFIG.upperArmLength,
-      ROBOT_CONFIG.lowerArmLength,
-      true // elbowUp - preserve original configuration
+  return withEndEffectorPath(trajectory, robotConfig, smoothedPositions);
+}
+
+/**
+ * Move each frame's end effector to a new position, solving the joint angles by
+ * inverse kinematics seeded with the recorded angles (so the arm configuration is preserved)
+ */
+function withEndEffectorPath(
+  trajectory: MotionTrajectory,
+  robotConfig: RobotArmConfig,
+  positions: Vector2D[]
+): MotionTrajectory {
+  const frames: MotionFrame[] = trajectory.frames.map((frame, index) => {
+    const { jointAngles } = solveInverseKinematics(
+      { ...robotConfig, jointAngles: frame.jointAngles },
+      positions[index]
     );
 
     // Calculate actual positions from the IK solution
-    const config: RobotArmConfig = {
-      shoulderPosition: SHOULDER_POSITION,
-      upperArmLength: ROBOT_CONFIG.upperArmLength,
-      lowerArmLength: ROBOT_CONFIG.lowerArmLength,
-      shoulderAngle,
-      elbowAngle
+    const { jointPositions, endEffectorPosition } = forwardKinematics({ ...robotConfig, jointAngles });
+
+    return {
+      ...frame,
+      jointAngles,
+      endEffectorPosition,
+      jointPositions
     };
+  });
 
-    const { elbowPosition, endEffectorPosition } = forwardKinematics(config);
+  return { ...trajectory, frames };
+}
+
+/**
+ * Give each frame new joint angles (within the joint limits), with positions by forward kinematics
+ */
+function withJointAngles(
+  trajectory: MotionTrajectory,
+  robotConfig: RobotArmConfig,
+  angles: number[][]
+): MotionTrajectory {
+  const frames: MotionFrame[] = trajectory.frames.map((frame, index) => {
+    const jointAngles = clampJointAngles(angles[index], robotConfig.jointLimits);
+    const { jointPositions, endEffectorPosition } = forwardKinematics({ ...robotConfig, jointAngles });
 
     return {
       ...frame,
-      shoulderAngle,
-      elbowAngle,
+      jointAngles,
       endEffectorPosition,
-      elbowPosition
+      jointPositions
     };
   });
 
-  return {
-    ...trajectory,
-    frames: smoothedFrames
+  return { ...trajectory, frames };
+}
+
+/**
+ * Interpolate a filter parameter between its values at strength 0 and 100
+ * Frequencies are interpolated geometrically, so each step of strength changes them by
+ * the same ratio
+ */
+function fromStrength(range: readonly [number, number], strength: number, geometric = false): number {
+  const t = Math.min(100, Math.max(0, strength)) / 100;
+  const [from, to] = range;
+  return geometric ? from * (to / from) ** t : from + (to - from) * t;
+}
+
+/**
+ * Smooth a trajectory with a chosen filter, in joint or Cartesian space
+ * Joint angles are unwrapped before filtering so a joint crossing ±π is not pulled
+ * around the circle. The Gaussian in Cartesian space is gaussianSmoothTrajectory.
+ *
+ * @param trajectory - The trajectory to smooth (timestamps in milliseconds)
+ * @param robotConfig - Arm used for forward and inverse kinematics
+ * @param options - Filter, domain and strength (0 returns the trajectory unchanged)
+ */
+export function filterTrajectory(
+  trajectory: MotionTrajectory,
+  robotConfig: RobotArmConfig,
+  options: SmoothingOptions
+): MotionTrajectory {
+  const { filter, domain, strength } = options;
+  if (strength <= 0 || trajectory.frames.length < 3) return trajectory;
+
+  if (filter === 'gaussian' && domain === 'cartesian') {
+    return gaussianSmoothTrajectory(trajectory, robotConfig, strengthToSigma(strength));
+  }
+
+  const times = trajectory.frames.map(frame => frame.timestamp / 1000);
+  const smooth = (values: number[]): number[] => {
+    switch (filter) {
+      case 'gaussian':
+        return gaussianFilter(values, strengthToSigma(strength));
+      case 'savitzky-golay':
+        return savitzkyGolayFilter(
+          values,
+          times,
+          fromStrength(SMOOTHING_CONFIG.savitzkyGolayWindowMs, strength) / 1000,
+          SMOOTHING_CONFIG.savitzkyGolayOrder
+        );
+      case 'butterworth':
+        return butterworthFilter(values, times, fromStrength(SMOOTHING_CONFIG.cutoffHz, strength, true));
+      case 'one-euro':
+        return oneEuroFilter(
+          values,
+          times,
+          fromStrength(SMOOTHING_CONFIG.oneEuroMinCutoffHz, strength, true),
+          SMOOTHING_CONFIG.oneEuroBeta[domain],
+          SMOOTHING_CONFIG.oneEuroDerivativeCutoffHz
+        );
+      case 'spline':
+        return smoothingSplineFilter(values, times, fromStrength(SMOOTHING_CONFIG.cutoffHz, strength, true));
+    }
   };
+
+  if (domain === 'joint') {
+    const jointCount = trajectory.frames[0].jointAngles.length;
+    const filtered = Array.from({ length: jointCount }, (_, joint) =>
+      smooth(unwrapAngles(trajectory.frames.map(frame => frame.jointAngles[joint])))
+    );
+    return withJointAngles(trajectory, robotConfig, trajectory.frames.map((_, index) =>
+      filtered.map(values => values[index])
+    ));
+  }
+
+  const xs = smooth(trajectory.frames.map(frame => frame.endEffectorPosition.x));
+  const ys = smooth(trajectory.frames.map(frame => frame.endEffectorPosition.y));
+  return withEndEffectorPath(trajectory, robotConfig, xs.map((x, index) => ({ x, y: ys[index] })));
 }
 
 /**
@@ -0,0 +1,96 @@
+/**
+ * Teleoperation utilities
+ * Turns held keys and gamepad sticks into velocity commands for jogging the arm
+ */
+
+import type { Vector2D, JogMode } from '../types';
+import { TELEOP_CONFIG } from '../constants/config';
+
+/**
+ * Velocity command of a jogging device
+ */
+export interface JogCommand {
+  velocity: Vector2D;           // End effector velocity, px/s (Cartesian mode)
+  jointVelocities: number[];    // Joint velocities, rad/s (joint mode)
+}
+
+/**
+ * Whether a command moves anything
+ */
+export function isJogging(command: JogCommand): boolean {
+  return command.velocity.x !== 0 || command.velocity.y !== 0 || command.jointVelocities.some(v => v !== 0);
+}
+
+/**
+ * Whether a key (KeyboardEvent.key) jogs the arm in a mode
+ */
+export function isJogKey(key: string, mode: JogMode): boolean {
+  const normalized = key.toLowerCase();
+  const keys: readonly string[] = mode === 'cartesian'
+    ? Object.values(TELEOP_CONFIG.cartesianKeys).flat()
+    : TELEOP_CONFIG.jointKeys.flat();
+  return keys.includes(normalized);
+}
+
+/**
+ * Velocity command from the keys currently held
+ *
+ * @param heldKeys - Held keys, lower case
+ * @param mode - Cartesian or joint jogging
+ * @param jointCount - Number of joints of the arm
+ * @param fine - Scale speeds down for precise positioning
+ */
+export function getKeyboardCommand(
+  heldKeys: ReadonlySet<string>,
+  mode: JogMode,
+  jointCount: number,
+  fine: boolean = false
+): JogCommand {
+  const isHeld = (keys: readonly string[]) => keys.some(key => heldKeys.has(key));
+  const scale = fine ? TELEOP_CONFIG.fineSpeedScale : 1;
+  const jointVelocities = new Array<number>(jointCount).fill(0);
+
+  if (mode === 'joint') {
+    TELEOP_CONFIG.jointKeys.slice(0, jointCount).forEach(([increase, decrease], joint) => {
+      const direction = (heldKeys.has(increase) ? 1 : 0) - (heldKeys.has(decrease) ? 1 : 0);
+      jointVelocities[joint] = direction * TELEOP_CONFIG.jointSpeed * scale;
+    });
+    return { velocity: { x: 0, y: 0 }, jointVelocities };
+  }
+
+  const { up, down, left, right } = TELEOP_CONFIG.cartesianKeys;
+  const x = (isHeld(right) ? 1 : 0) - (isHeld(left) ? 1 : 0);
+  const y = (isHeld(down) ? 1 : 0) - (isHeld(up) ? 1 : 0);
+
+  // Diagonals move at the same speed as straight jogs
+  const length = Math.hypot(x, y);
+  const speed = length > 0 ? (TELEOP_CONFIG.cartesianSpeed * scale) / length : 0;
+
+  return { velocity: { x: x * speed, y: y * speed }, jointVelocities };
+}
+
+/**
+ * Remove the stick deadzone and rescale the rest of the range to 0–1
+ */
+export function applyDeadzone(value: number, deadzone: number = TELEOP_CONFIG.gamepadDeadzone): number {
+  const magnitude = Math.abs(value);
+  if (magnitude <= deadzone) return 0;
+  return Math.sign(value) * Math.min(1, (magnitude - deadzone) / (1 - deadzone));
+}
+
+/**
+ * Joint velocity command from gamepad axes
+ * Each stick axis drives one joint, base to tip: left stick X and Y, then right stick X and Y
+ * (standard mapping). Pushing a stick right or up increases its joint angle.
+ */
+export function getGamepadCommand(axes: readonly number[], jointCount: number): JogCommand {
+  const jointVelocities = new Array<number>(jointCount).fill(0);
+
+  for (let joint = 0; joint < Math.min(jointCount, axes.length); joint++) {
+    // Odd axes are vertical and report up as negative
+    const deflection = applyDeadzone(joint % 2 === 1 ? -axes[joint] : axes[joint]);
+    jointVelocities[joint] = deflection * TELEOP_CONFIG.jointSpeed;
+  }
+
+  return { velocity: { x: 0, y: 0 }, jointVelocities };
+}
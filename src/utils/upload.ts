@@ -0,0 +1,203 @@
+/**
+ * Session upload utilities
+ * Sends completed sessions to the collection endpoint. Sessions wait in an IndexedDB
+ * queue until the endpoint has accepted them, so uploads survive going offline,
+ * reloading or closing the tab; failed requests are retried with exponential backoff.
+ */
+
+import type { QueuedUpload, UploadState, StudyProtocol } from '../types';
+import { PERSISTENCE_CONFIG, UPLOAD_CONFIG } from '../constants/config';
+import { withStore } from './database';
+
+// Upload state per session ID, replaced (never mutated) on every change
+let uploadStates: Record<string, UploadState> = {};
+const listeners = new Set<() => void>();
+
+// Sessions with an upload run in progress
+const inFlight = new Set<string>();
+
+function setUploadState(sessionId: string, state: UploadState) {
+  uploadStates = { ...uploadStates, [sessionId]: state };
+  listeners.forEach(listener => listener());
+}
+
+/**
+ * Subscribe to upload state changes (for useSyncExternalStore)
+ * @returns Unsubscribe function
+ */
+export function subscribeToUploads(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Current upload state of a session, or null if it has not been queued in this visit
+ */
+export function getUploadState(sessionId: string): UploadState | null {
+  return uploadStates[sessionId] ?? null;
+}
+
+/**
+ * Endpoint sessions of this study are uploaded to ('' when uploads are disabled)
+ */
+export function getUploadEndpoint(protocol: StudyProtocol | null): string {
+  return protocol?.uploadEndpoint ?? UPLOAD_CONFIG.endpoint;
+}
+
+/**
+ * Add a session to the upload queue, replacing an earlier entry for the same session
+ */
+export async function enqueueUpload(upload: QueuedUpload): Promise<void> {
+  await withStore(PERSISTENCE_CONFIG.uploadStoreName, 'readwrite', store => store.put(upload, upload.sessionId));
+}
+
+/**
+ * All sessions still waiting to be uploaded
+ */
+export async function getQueuedUploads(): Promise<QueuedUpload[]> {
+  return withStore<QueuedUpload[]>(PERSISTENCE_CONFIG.uploadStoreName, 'readonly', store => store.getAll());
+}
+
+async function removeQueuedUpload(sessionId: string): Promise<void> {
+  await withStore(PERSISTENCE_CONFIG.uploadStoreName, 'readwrite', store => store.delete(sessionId));
+}
+
+/**
+ * Request that POSTs a queued session to its endpoint
+ * Header values are percent-encoded: participant IDs and filenames may hold characters
+ * that are not allowed in HTTP headers. The receiver decodes them.
+ *
+ * @throws TypeError if no request can be made from the upload (e.g. an invalid endpoint URL)
+ */
+function buildUploadRequest(upload: QueuedUpload, signal: AbortSignal): Request {
+  return new Request(upload.endpoint, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/zip',
+      'X-Session-Id': encodeURIComponent(upload.sessionId),
+      'X-Participant-Id': encodeURIComponent(upload.participantId),
+      'X-Filename': encodeURIComponent(upload.filename)
+    },
+    body: upload.payload,
+    signal
+  });
+}
+
+/**
+ * POST a queued session to its endpoint
+ * Throws if the request fails, times out or the endpoint does not answer 2xx
+ */
+async function postUpload(request: Request, controller: AbortController): Promise<void> {
+  const timeout = window.setTimeout(() => controller.abort(), UPLOAD_CONFIG.requestTimeoutMs);
+
+  try {
+    const response = await fetch(request);
+
+    if (!response.ok) {
+      throw new Error(`Upload rejected with HTTP ${response.status}`);
+    }
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw new Error(`Upload timed out after ${UPLOAD_CONFIG.requestTimeoutMs / 1000}s`, { cause: error });
+    }
+    throw error;
+  } finally {
+    window.clearTimeout(timeout);
+  }
+}
+
+/**
+ * Delay before retry number `retry` (1-based): exponential with jitter, capped
+ */
+function getBackoffDelay(retry: number): number {
+  const delay = Math.min(UPLOAD_CONFIG.maxBackoffMs, UPLOAD_CONFIG.initialBackoffMs * 2 ** (retry - 1));
+  return delay * (0.5 + Math.random() * 0.5);
+}
+
+/**
+ * Upload one queued session, retrying up to UPLOAD_CONFIG.maxAttempts times
+ * Stops early while the browser is offline; the session stays queued until it succeeds.
+ * A session whose request cannot be built fails at once and is marked unsendable.
+ */
+async function runUpload(upload: QueuedUpload): Promise<void> {
+  if (inFlight.has(upload.sessionId)) return;
+  inFlight.add(upload.sessionId);
+
+  let current = upload;
+
+  try {
+    for (let attempt = 1; attempt <= UPLOAD_CONFIG.maxAttempts; attempt++) {
+      if (!navigator.onLine) {
+        setUploadState(current.sessionId, { status: 'offline', attempts: current.attempts, error: current.lastError });
+        return;
+      }
+
+      setUploadState(current.sessionId, { status: 'uploading', attempts: current.attempts, error: current.lastError });
+
+      // A request that cannot be built will never succeed: fail for good instead of retrying
+      const controller = new AbortController();
+      let request: Request;
+      try {
+        request = buildUploadRequest(current, controller.signal);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        current = { ...current, attempts: current.attempts + 1, lastError: message, unsendable: true };
+        await enqueueUpload(current);
+        break;
+      }
+
+      try {
+        await postUpload(request, controller);
+        await removeQueuedUpload(current.sessionId);
+        setUploadState(current.sessionId, { status: 'uploaded', attempts: current.attempts + 1, error: null });
+        return;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        current = { ...current, attempts: current.attempts + 1, lastError: message };
+        await enqueueUpload(current);
+      }
+
+      if (attempt === UPLOAD_CONFIG.maxAttempts) break;
+
+      setUploadState(current.sessionId, { status: 'retrying', attempts: current.attempts, error: current.lastError });
+      await new Promise(resolve => window.setTimeout(resolve, getBackoffDelay(attempt)));
+    }
+
+    setUploadState(current.sessionId, { status: 'failed', attempts: current.attempts, error: current.lastError });
+  } finally {
+    inFlight.delete(current.sessionId);
+  }
+}
+
+/**
+ * Queue a session and start uploading it
+ * Resolves when the upload run ends; check getUploadState for the outcome.
+ * Also the manual retry, so it clears the unsendable mark.
+ */
+export async function submitUpload(upload: QueuedUpload): Promise<void> {
+  if (inFlight.has(upload.sessionId) || getUploadState(upload.sessionId)?.status === 'uploaded') return;
+
+  const queued = { ...upload, unsendable: false };
+  setUploadState(queued.sessionId, { status: 'queued', attempts: queued.attempts, error: queued.lastError });
+  await enqueueUpload(queued);
+  await runUpload(queued);
+}
+
+/**
+ * Retry every queued session, one at a time
+ * Called at startup and whenever the browser comes back online. Unsendable sessions are
+ * skipped; they stay queued for a manual retry.
+ */
+export async function processUploadQueue(): Promise<void> {
+  const queued = await getQueuedUploads();
+
+  for (const upload of queued) {
+    if (upload.unsendable) {
+      setUploadState(upload.sessionId, { status: 'failed', attempts: upload.attempts, error: upload.lastError });
+      continue;
+    }
+    await runUpload(upload);
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * Waypoint utilities
+ * A prompt can ask the end effector to pass through waypoints ("through A, then B, then
+ * reach C") before the target counts as reached.
+ */
+
+import type { Vector2D, Waypoint, MotionTrajectory } from '../types';
+import { distanceToSegment, isInTargetZone } from './kinematics';
+import { TARGET_CONFIG } from '../constants/config';
+
+/**
+ * Hit radius of a waypoint
+ */
+export function getWaypointRadius(waypoint: Waypoint): number {
+  return waypoint.radius ?? TARGET_CONFIG.radius;
+}
+
+/**
+ * Hit timestamps of a trajectory's waypoints, one per waypoint (null until hit)
+ */
+export function getWaypointHits(trajectory: MotionTrajectory): (number | null)[] {
+  return (trajectory.waypoints ?? []).map((_, index) => trajectory.waypointHits?.[index] ?? null);
+}
+
+/**
+ * Waypoints that can be hit next
+ * When the order is required only the first waypoint not hit yet is pending,
+ * otherwise every waypoint not hit yet is.
+ */
+export function getPendingWaypoints(trajectory: MotionTrajectory): number[] {
+  const pending = getWaypointHits(trajectory)
+    .map((hit, index) => (hit === null ? index : -1))
+    .filter(index => index >= 0);
+
+  return trajectory.waypointsInOrder === false ? pending : pending.slice(0, 1);
+}
+
+/**
+ * Whether every waypoint of a trajectory has been hit (true without waypoints)
+ */
+export function areWaypointsComplete(trajectory: MotionTrajectory | null): boolean {
+  return !trajectory || getWaypointHits(trajectory).every(hit => hit !== null);
+}
+
+/**
+ * Whether the end effector has reached the target, after passing every waypoint
+ * @param targetRadius - Current target size (it changes in moving-target scenes)
+ */
+export function hasReachedTarget(
+  endEffectorPosition: Vector2D,
+  targetPosition: Vector2D | null,
+  trajectory: MotionTrajectory | null,
+  targetRadius: number = TARGET_CONFIG.radius
+): boolean {
+  return !!targetPosition &&
+    isInTargetZone(endEffectorPosition, targetPosition, targetRadius) &&
+    areWaypointsComplete(trajectory);
+}
+
+/**
+ * Waypoints hit by an end effector move
+ * The move is tested as a segment, so fast moves cannot skip over a small waypoint. In
+ * order, one move may pass several waypoints; they are all hit at the same timestamp.
+ *
+ * @param from - End effector position at the previous frame (null for the first frame)
+ * @param to - End effector position at the new frame
+ * @param timestamp - Timestamp of the new frame
+ * @returns The updated hit timestamps, or null when no waypoint was hit
+ */
+export function recordWaypointHits(
+  trajectory: MotionTrajectory,
+  from: Vector2D | null,
+  to: Vector2D,
+  timestamp: number
+): (number | null)[] | null {
+  const waypoints = trajectory.waypoints ?? [];
+  const hits = getWaypointHits(trajectory);
+  let changed = false;
+
+  for (;;) {
+    const hit = getPendingWaypoints({ ...trajectory, waypointHits: hits }).find(index =>
+      distanceToSegment(waypoints[index].position, from ?? to, to) <= getWaypointRadius(waypoints[index])
+    );
+    if (hit === undefined) break;
+    hits[hit] = timestamp;
+    changed = true;
+  }
+
+  return changed ? hits : null;
+}
+
+/**
+ * Hit timestamps kept when a trajectory is cut at a timestamp (hits after it are cleared)
+ */
+export function truncateWaypointHits(trajectory: MotionTrajectory, timestamp: number): (number | null)[] | undefined {
+  if (!trajectory.waypointHits) return undefined;
+  return trajectory.waypointHits.map(hit => (hit !== null && hit <= timestamp ? hit : null));
+}
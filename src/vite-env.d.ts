@@ -0,0 +1,9 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_UPLOAD_ENDPOINT?: string;  // Collection endpoint completed sessions are POSTed to
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}